@@ -0,0 +1,97 @@
+const path = require('path');
+
+/**
+ * Load a build with the codemirror of its own dependencies, so two builds define their modes apart.
+ */
+function load(dir) {
+  const resolve = id => require.resolve(id, { paths: [dir] });
+  const lib = require(path.join(dir, 'dist/node'));
+  const CodeMirror = require(resolve('codemirror'));
+  require(resolve('codemirror/mode/sql/sql'));
+  require(resolve('codemirror/mode/groovy/groovy'));
+  return { ...lib, CodeMirror };
+}
+
+const current = load(__dirname);
+// A checkout of another version with its dependencies installed and built, such as the one before the combined matchers,
+// to compare the matching of the children one by one with `node benchmark.js ../baseline`.
+const baseline = process.argv[2] ? load(path.resolve(process.argv[2])) : null;
+
+const OPTIONS = {
+  name: 'cxj-template',
+  mode: 'sql',
+  codeMode: 'groovy',
+};
+
+function generateQuery(lines) {
+  const parts = [];
+  for (let i = 0; parts.length < lines; ++i) {
+    parts.push(
+      `select f.id, f.name, '${i}' as tag, (f.a + f.b) * #{ factor${i} } as score from Family f`,
+      `where f.type = #{: type${i} } and f.name like "%" || #{: name${i} } || "%"`,
+      `#[if][#{ domainInfo.type == "root" && items[${i}].enabled }][`,
+      `  and f.base in (select b.id from Base b where b.project = #{: project${i} } and b.area in ('a', 'b', 'c'))`,
+      `][#{ domainInfo.type == "district" }][`,
+      `  and f.base.project.district = #{:domain} #[if][#{ flag }][ and f.x = #{: x } ]`,
+      `][`,
+      `  and 1 = 0`,
+      `]`,
+    );
+  }
+  return parts.slice(0, lines).join('\n');
+}
+
+function generateLongLine(expressions) {
+  const parts = [];
+  for (let i = 0; i < expressions; ++i) {
+    parts.push(`f.c${i} = #{: p${i} } and (f.d${i} = 'v${i}' or f.e${i} = #{ e${i} })`);
+  }
+  return `select * from t where ${parts.join(' and ')}`;
+}
+
+/**
+ * Like the editor, which keeps a copy of the state for the lines to restart the highlighting from.
+ */
+function highlightCopyingStates({ CodeMirror }, text) {
+  const mode = CodeMirror.getMode({ indentUnit: 2, tabSize: 4 }, OPTIONS);
+  let state = CodeMirror.startState(mode);
+  for (const line of CodeMirror.splitLines(text)) {
+    const stream = new CodeMirror.StringStream(line, 4);
+    while (!stream.eol()) {
+      mode.token(stream, state);
+      stream.start = stream.pos;
+    }
+    state = CodeMirror.copyState(mode, state);
+  }
+}
+
+function time(run, times) {
+  run();
+  let best = Infinity;
+  for (let i = 0; i < times; ++i) {
+    const start = process.hrtime();
+    run();
+    const [seconds, nanoseconds] = process.hrtime(start);
+    best = Math.min(best, seconds * 1e3 + nanoseconds / 1e6);
+  }
+  return best;
+}
+
+function measure(name, run, times = 5) {
+  const best = time(() => run(current), times);
+  if (!baseline) {
+    console.log(`${name}: ${best.toFixed(1)}ms`);
+    return;
+  }
+  const baselineBest = time(() => run(baseline), times);
+  console.log(`${name}: ${best.toFixed(1)}ms, baseline ${baselineBest.toFixed(1)}ms, ${(baselineBest / best).toFixed(1)}x`);
+}
+
+const query = generateQuery(5000);
+const longLine = generateLongLine(2000);
+
+measure('scan 5k lines', ({ scanTemplate }) => scanTemplate(query, OPTIONS));
+measure('tokenize 5k lines', ({ tokenize }) => tokenize(query, OPTIONS));
+measure('highlight 5k lines copying the states', lib => highlightCopyingStates(lib, query));
+measure('scan a line of 2k expressions', ({ scanTemplate }) => scanTemplate(longLine, OPTIONS));
+measure('tokenize a line of 2k expressions', ({ tokenize }) => tokenize(longLine, OPTIONS));
@@ -0,0 +1,347 @@
+// The entry for CodeMirror 6. The template mode and its inner modes still run as CodeMirror 5 modes, wrapped by a stream language.
+import { foldService, IndentContext, LanguageSupport, StreamLanguage, StringStream } from '@codemirror/language';
+import { EditorState, Prec, Text } from '@codemirror/state';
+import { Tag, tags } from '@lezer/highlight';
+// The codemirror package of version 5, which runs the modes. The meta package of CodeMirror 6 takes the same name, see the README.
+import CodeMirror, { Mode } from 'codemirror';
+import { getFoldRanges, IPattern, IPatternContext, IScannedLayer, ITemplateOptions, ITemplateState, parse, scanTemplate } from './index';
+
+/**
+ * The highlighting tags of the template, sub tags of `tags.bracket`, `tags.comment`, `tags.escape` and `tags.invalid`,
+ * so the highlight styles which do not know them fall back to the parents.
+ */
+export const templateTags = {
+    /**
+     * `#{` and `}`
+     */
+    code: Tag.define(tags.bracket),
+    /**
+     * `#[`, `]` and the `[` `]` of the blocks.
+     */
+    template: Tag.define(tags.bracket),
+    /**
+     * The keyword of `#[if]`.
+     */
+    flag: Tag.define(tags.keyword),
+    /**
+     * `#-- ... --#`
+     */
+    comment: Tag.define(tags.comment),
+    /**
+     * The escape sequences, such as `\'` and `\#{`.
+     */
+    escape: Tag.define(tags.escape),
+    /**
+     * Where an unclosed pattern is closed by its recovery policy.
+     */
+    error: Tag.define(tags.invalid),
+};
+
+const TOKEN_TABLE: { [name: string]: Tag } = {
+    'cxj-code': templateTags.code,
+    'cxj-template': templateTags.template,
+    'cxj-template-flag-keyword': templateTags.flag,
+    'cxj-comment': templateTags.comment,
+    'cxj-escape': templateTags.escape,
+    'cxj-error': templateTags.error,
+};
+
+/**
+ * The tags by name, besides the modifiers such as `tags.definition`.
+ */
+const TAGS: { [name: string]: unknown } = tags;
+
+/**
+ * The CodeMirror 5 styles which are named differently by the CodeMirror 6 tags.
+ */
+const LEGACY_TAGS: { [style: string]: string } = {
+    'variable': 'variableName',
+    'variable-2': 'variableName.special',
+    'variable-3': 'typeName',
+    'string-2': 'string.special',
+    'def': 'variableName.definition',
+    'tag': 'tagName',
+    'attribute': 'attributeName',
+    'type': 'typeName',
+    'builtin': 'variableName.standard',
+    'qualifier': 'modifier',
+    'error': 'invalid',
+    'header': 'heading',
+    'property': 'propertyName',
+};
+
+/**
+ * Convert the style of a CodeMirror 5 token to the tag names, the styles with no tag are dropped,
+ * such as the region styles `cxj-depth-<n>` and `line-background-<class>`.
+ */
+function toTagNames(style: string | null): string | null {
+    if (!style) {
+        return null;
+    }
+    const names: string[] = [];
+    for (const word of style.split(' ')) {
+        const name = TOKEN_TABLE[word] ? word : LEGACY_TAGS[word] || (TAGS[word] instanceof Tag ? word : null);
+        if (name && names.indexOf(name) === -1) {
+            names.push(name);
+        }
+    }
+    return names.join(' ') || null;
+}
+
+/**
+ * The CodeMirror 5 stream reading the CodeMirror 6 stream, so the columns are counted with the tab size of the editor.
+ * The CodeMirror 5 typings tell no `undefined` from the end of the line, both streams return it all the same.
+ */
+class LegacyStringStream implements CodeMirror.StringStream {
+    lastColumnPos = 0;
+    lastColumnValue = 0;
+    lineStart = 0;
+    /**
+     * The default of CodeMirror 6, only read by the modes counting the columns themselves.
+     */
+    tabSize = 4;
+
+    constructor(private readonly stream: StringStream) {}
+
+    get string() {
+        return this.stream.string;
+    }
+
+    get pos() {
+        return this.stream.pos;
+    }
+
+    set pos(pos: number) {
+        this.stream.pos = pos;
+    }
+
+    get start() {
+        return this.stream.start;
+    }
+
+    set start(start: number) {
+        this.stream.start = start;
+    }
+
+    eol() {
+        return this.stream.eol();
+    }
+
+    sol() {
+        return this.stream.sol();
+    }
+
+    peek() {
+        return this.stream.peek()!;
+    }
+
+    next() {
+        return this.stream.next()!;
+    }
+
+    eat(match: string | RegExp | ((char: string) => boolean)) {
+        return this.stream.eat(match)!;
+    }
+
+    eatWhile(match: string | RegExp | ((char: string) => boolean)) {
+        return this.stream.eatWhile(match);
+    }
+
+    eatSpace() {
+        return this.stream.eatSpace();
+    }
+
+    skipToEnd() {
+        this.stream.skipToEnd();
+    }
+
+    skipTo(ch: string) {
+        return this.stream.skipTo(ch)!;
+    }
+
+    match(pattern: string, consume?: boolean, caseFold?: boolean): boolean;
+    match(pattern: RegExp, consume?: boolean): string[];
+    match(pattern: string | RegExp, consume?: boolean, caseFold?: boolean): boolean | string[] {
+        return this.stream.match(pattern, consume, caseFold)!;
+    }
+
+    backUp(n: number) {
+        this.stream.backUp(n);
+    }
+
+    column() {
+        return this.stream.column();
+    }
+
+    indentation() {
+        return this.stream.indentation();
+    }
+
+    current() {
+        return this.stream.current();
+    }
+}
+
+/**
+ * Compute the value from the document once, until the document changes.
+ */
+function cacheByDocument<T>(compute: (text: string) => T): (doc: Text) => T {
+    let cached: { doc: Text, value: T } | null = null;
+    return doc => {
+        if (!cached || cached.doc !== doc) {
+            cached = { doc, value: compute(doc.toString()) };
+        }
+        return cached.value;
+    };
+}
+
+function getRootContext(context: IPatternContext) {
+    while (context.pre) {
+        context = context.pre;
+    }
+    return context;
+}
+
+/**
+ * Create the stream language of the template. The inner modes are CodeMirror 5 modes, such as `codemirror/mode/sql/sql`.
+ * @param options the mode options, the same as the CodeMirror 5 mode
+ */
+export function templateLanguage(options: ITemplateOptions): StreamLanguage<ITemplateState> {
+    // One mode per indent unit, so the editors of different units share the language without replacing the modes of each other.
+    const modes: { [indentUnit: number]: Mode<ITemplateState> } = {};
+    const getMode = (indentUnit: number) => modes[indentUnit] || (modes[indentUnit] = CodeMirror.getMode({ indentUnit }, options));
+    const baseMode = getMode(2);
+    // The comments and the electric input of the text, the ones of the base mode or of the template itself.
+    const { lineComment, blockCommentStart, blockCommentEnd, electricInput } = CodeMirror.innerMode(baseMode, baseMode.startState!()).mode;
+    return StreamLanguage.define<ITemplateState>({
+        name: 'cxj-template',
+        startState(indentUnit: number) {
+            return getMode(indentUnit).startState!();
+        },
+        token(stream: StringStream, state: ITemplateState) {
+            return toTagNames(baseMode.token!(new LegacyStringStream(stream), state));
+        },
+        blankLine(state: ITemplateState, indentUnit: number) {
+            const current = getMode(indentUnit);
+            if (current.blankLine) {
+                current.blankLine(state);
+            }
+        },
+        copyState(state: ITemplateState) {
+            return CodeMirror.copyState(baseMode, state);
+        },
+        indent(state: ITemplateState, textAfter: string, context: IndentContext) {
+            const indentation = getMode(context.unit).indent!(state, textAfter);
+            return indentation === CodeMirror.Pass ? null : indentation;
+        },
+        tokenTable: TOKEN_TABLE,
+        languageData: {
+            commentTokens: {
+                line: lineComment,
+                block: blockCommentStart ? { open: blockCommentStart, close: blockCommentEnd } : undefined,
+            },
+            indentOnInput: electricInput,
+        },
+    });
+}
+
+/**
+ * Get the pattern stack at the position of the document, from the outermost pattern to the innermost one.
+ * A delimiter belongs to the pattern outside of it.
+ */
+export type TemplatePatternsAt = (state: EditorState, pos: number) => IPattern[];
+
+type TemplateContextAt = (state: EditorState, pos: number) => IPatternContext;
+
+function createContextAt(options: ITemplateOptions): TemplateContextAt {
+    const scan = cacheByDocument(text => scanTemplate(text, options));
+    return (state, pos) => {
+        const { doc } = state;
+        const { layers, state: { patternContext } } = scan(doc);
+        let low = 0;
+        let high = layers.length;
+        const getEnd = ({ line, pos: ch, matched }: IScannedLayer) => doc.line(line + 1).from + ch + (matched ? matched.length : 0);
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (getEnd(layers[middle]) <= pos) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low > 0 ? layers[low - 1].nextContext : getRootContext(patternContext);
+    };
+}
+
+function createPatternsAt(contextAt: TemplateContextAt): TemplatePatternsAt {
+    return (state, pos) => {
+        const patterns: IPattern[] = [];
+        for (let current: IPatternContext | null = contextAt(state, pos); current; current = current.pre) {
+            patterns.unshift(current.pattern);
+        }
+        return patterns;
+    };
+}
+
+/**
+ * The comments of the innermost mode at the position, such as the code mode inside `#{ }`.
+ */
+function createLanguageData(contextAt: TemplateContextAt) {
+    return EditorState.languageData.of((state, pos) => {
+        for (let context = contextAt(state, pos); context.pre; context = context.pre!) {
+            const { mode } = context;
+            if (!mode) {
+                continue;
+            }
+            const { lineComment, blockCommentStart, blockCommentEnd } = CodeMirror.getMode({}, mode);
+            if (!lineComment && !blockCommentStart) {
+                continue;
+            }
+            return [{
+                commentTokens: {
+                    line: lineComment,
+                    block: blockCommentStart ? { open: blockCommentStart, close: blockCommentEnd } : undefined,
+                },
+            }];
+        }
+        return [];
+    });
+}
+
+/**
+ * The flag chains, the blocks, the multi-line `#{ }` regions and the comments fold, the same as the fold helper of CodeMirror 5.
+ */
+function createFolding(options: ITemplateOptions) {
+    const folds = cacheByDocument(text => getFoldRanges(parse(text, options)));
+    return foldService.of((state, lineStart) => {
+        const { doc } = state;
+        const range = folds(doc)[doc.lineAt(lineStart).number - 1];
+        return range ? {
+            from: doc.line(range.from.line + 1).from + range.from.ch,
+            to: doc.line(range.to.line + 1).from + range.to.ch,
+        } : null;
+    });
+}
+
+export interface ITemplateLanguageSupport extends LanguageSupport {
+    /**
+     * Get the pattern stack at the position, such as to tell whether the position is in a `#{ }` region.
+     */
+    patternsAt: TemplatePatternsAt;
+}
+
+/**
+ * Create the language support of the template for CodeMirror 6, with the folding, the indentation,
+ * and the comments of the inner mode at the cursor.
+ * @param options the mode options, the same as the CodeMirror 5 mode
+ */
+export function template(options: ITemplateOptions): ITemplateLanguageSupport {
+    const contextAt = createContextAt(options);
+    const support = new LanguageSupport(templateLanguage(options), [
+        createFolding(options),
+        Prec.high(createLanguageData(contextAt)),
+    ]);
+    return Object.assign(support, { patternsAt: createPatternsAt(contextAt) });
+}
+
+export * from './index';
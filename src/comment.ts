@@ -0,0 +1,204 @@
+import { Editor, Position } from 'codemirror';
+import { getEditorDocument, getEditorOptions } from './editor';
+import { DEFAULT_DELIMITERS, registerTemplateCommand, resolveOptions } from './index';
+import { IBindParameterNode, ICommentNode, IExpressionNode, TemplateNode } from './parser';
+
+/**
+ * `template` comments with `#-- --#`, `base` with the comments of the base mode, `code` with the comments of the code mode.
+ */
+export type CommentSyntax = 'template' | 'base' | 'code';
+
+/**
+ * The methods of the comment addon.
+ */
+interface ICommentEditor extends Editor {
+    lineComment?: (from: Position, to: Position, options?: any) => void;
+    blockComment?: (from: Position, to: Position, options?: any) => void;
+    uncomment?: (from: Position, to: Position, options?: any) => boolean;
+}
+
+function getChildren(node: TemplateNode): TemplateNode[] {
+    switch (node.type) {
+        case 'block':
+            return node.children;
+        case 'directive':
+            return node.blocks;
+        case 'conditional': {
+            const children: TemplateNode[] = [];
+            node.branches.forEach(({ condition, body }) => children.push(condition, body));
+            if (node.elseBody) {
+                children.push(node.elseBody);
+            }
+            return children;
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Visit the nodes other than the text, the descendants included.
+ */
+function forEachNode(nodes: TemplateNode[], callback: (node: TemplateNode) => void) {
+    for (const node of nodes) {
+        if (node.type !== 'text') {
+            callback(node);
+            forEachNode(getChildren(node), callback);
+        }
+    }
+}
+
+function findComment(nodes: TemplateNode[], from: number, to: number): ICommentNode | null {
+    let found: ICommentNode | null = null;
+    forEachNode(nodes, node => {
+        if (node.type === 'comment' && node.range.from.offset <= from && to <= node.range.to.offset) {
+            found = node;
+        }
+    });
+    return found;
+}
+
+function findCode(nodes: TemplateNode[], from: number, to: number): IExpressionNode | IBindParameterNode | null {
+    let found: IExpressionNode | IBindParameterNode | null = null;
+    forEachNode(nodes, node => {
+        if ((node.type === 'expression' || node.type === 'bind-parameter') && node.codeRange.from.offset <= from && to <= node.codeRange.to.offset) {
+            found = node;
+        }
+    });
+    return found;
+}
+
+function hasConstruct(nodes: TemplateNode[], from: number, to: number) {
+    let found = false;
+    forEachNode(nodes, ({ range }) => {
+        found = found || (range.from.offset < to && from < range.to.offset);
+    });
+    return found;
+}
+
+/**
+ * Expand the range until it cuts no construct, so the comment never breaks the delimiters.
+ */
+function expandToConstructs(nodes: TemplateNode[], from: number, to: number): [number, number] {
+    let changed = true;
+    while (changed) {
+        changed = false;
+        forEachNode(nodes, ({ range }) => {
+            const start = range.from.offset;
+            const end = range.to.offset;
+            const overlapped = start < to && from < end;
+            const containing = start <= from && to <= end;
+            const contained = from <= start && end <= to;
+            if (overlapped && !containing && !contained) {
+                from = Math.min(from, start);
+                to = Math.max(to, end);
+                changed = true;
+            }
+        });
+    }
+    return [from, to];
+}
+
+function getLineRange(cm: Editor, from: Position, to: Position): [number, number] {
+    return [cm.indexFromPos({ line: from.line, ch: 0 }), cm.indexFromPos({ line: to.line, ch: cm.getLine(to.line).length })];
+}
+
+/**
+ * Choose the comment syntax for the range: the code mode inside a `#{ }` region,
+ * the base mode when the lines of the range contain no template construct, otherwise the template comment.
+ */
+export function getCommentSyntax(cm: Editor, from: Position, to: Position): CommentSyntax {
+    const { children } = getEditorDocument(cm);
+    if (findCode(children, cm.indexFromPos(from), cm.indexFromPos(to))) {
+        return 'code';
+    }
+    const [lineFrom, lineTo] = getLineRange(cm, from, to);
+    return hasConstruct(children, lineFrom, lineTo) ? 'template' : 'base';
+}
+
+function getCommentDelimiters(cm: Editor): [string, string] | null {
+    const { delimiters } = resolveOptions(getEditorOptions(cm));
+    const { commentOpen, commentClose } = { ...DEFAULT_DELIMITERS, ...delimiters };
+    return commentOpen ? [commentOpen, commentClose] : null;
+}
+
+function uncommentTemplate(cm: Editor, { range, contentRange }: ICommentNode) {
+    cm.replaceRange('', cm.posFromIndex(contentRange.to.offset), cm.posFromIndex(range.to.offset));
+    cm.replaceRange('', cm.posFromIndex(range.from.offset), cm.posFromIndex(contentRange.from.offset));
+}
+
+function commentTemplate(cm: Editor, from: Position, to: Position) {
+    const delimiters = getCommentDelimiters(cm);
+    if (!delimiters) {
+        return;
+    }
+    let start = cm.indexFromPos(from);
+    let end = cm.indexFromPos(to);
+    if (start === end) {
+        const line = cm.getLine(from.line);
+        start = cm.indexFromPos({ line: from.line, ch: line.length - line.replace(/^\s+/, '').length });
+        end = cm.indexFromPos({ line: from.line, ch: line.length });
+    }
+    [start, end] = expandToConstructs(getEditorDocument(cm).children, start, end);
+    cm.replaceRange(delimiters[1], cm.posFromIndex(end));
+    cm.replaceRange(delimiters[0], cm.posFromIndex(start));
+}
+
+function toggleRange(cm: ICommentEditor, from: Position, to: Position, syntax?: CommentSyntax) {
+    const { children } = getEditorDocument(cm);
+    const comment = findComment(children, cm.indexFromPos(from), cm.indexFromPos(to));
+    if (comment) {
+        uncommentTemplate(cm, comment);
+        return;
+    }
+    const { lineComment, blockComment, uncomment } = cm;
+    syntax = syntax || getCommentSyntax(cm, from, to);
+    if (syntax === 'template' || (syntax === 'base' && !lineComment)) {
+        commentTemplate(cm, from, to);
+    } else if (!lineComment || !blockComment || !uncomment) {
+        return;
+    } else if (syntax === 'base') {
+        if (!uncomment.call(cm, from, to)) {
+            lineComment.call(cm, from, to);
+        }
+    } else {
+        const { codeRange } = findCode(children, cm.indexFromPos(from), cm.indexFromPos(to))!;
+        if (from.line === to.line && from.ch === to.ch) {
+            from = cm.posFromIndex(codeRange.from.offset);
+            to = cm.posFromIndex(codeRange.to.offset);
+        }
+        if (!uncomment.call(cm, from, to)) {
+            blockComment.call(cm, from, to, { fullLines: false });
+        }
+    }
+}
+
+function toggleSelections(cm: Editor, syntax?: CommentSyntax) {
+    cm.operation(() => {
+        const ranges = cm.listSelections();
+        for (let i = ranges.length - 1; i >= 0; -- i) {
+            const { anchor, head } = ranges[i];
+            const headFirst = head.line < anchor.line || (head.line === anchor.line && head.ch < anchor.ch);
+            toggleRange(cm, headFirst ? head : anchor, headFirst ? anchor : head, syntax);
+        }
+    });
+}
+
+/**
+ * Comment or uncomment the selections with the syntax of their regions, see `getCommentSyntax`.
+ * The base and code syntaxes need the comment addon, without it the base region falls back to the template comment.
+ */
+export function toggleTemplateComment(cm: Editor) {
+    toggleSelections(cm);
+}
+
+/**
+ * Comment or uncomment the selections with the template comment, which disables everything inside, the flag chains included.
+ * The range is expanded so it does not cut any construct, an empty selection comments its line.
+ */
+export function toggleTemplateBlockComment(cm: Editor) {
+    toggleSelections(cm, 'template');
+}
+
+registerTemplateCommand('toggleTemplateComment', toggleTemplateComment);
+registerTemplateCommand('toggleTemplateBlockComment', toggleTemplateBlockComment);
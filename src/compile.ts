@@ -0,0 +1,105 @@
+import { Evaluator, evaluateExpression } from './evaluator';
+import { DEFAULT_PARSER_OPTIONS, IBindParameterNode, IBlockNode, IDocumentNode, parse } from './parser';
+import { createDirectiveHandler, defaultStringify, IRenderHandlers, IRenderOptions, renderDocument } from './render';
+
+/**
+ * `positional` uses `?` for every parameter, `named` uses `:name`.
+ */
+export type PlaceholderStyle = 'positional' | 'named';
+
+/**
+ * Decide whether the branch is chosen, by the code of its condition.
+ */
+export type BranchResolver = (code: string, condition: IBlockNode) => boolean;
+
+export interface ICompileOptions extends IRenderOptions {
+    placeholder?: PlaceholderStyle;
+    /**
+     * Default evaluates the condition against the context with the evaluator.
+     */
+    resolveBranch?: BranchResolver;
+    /**
+     * Name the parameter of the named placeholder. Default derives the name from the expression, such as `domainInfo_type` from `domainInfo.type`.
+     * The same expression always gets the same name.
+     */
+    parameterName?: (code: string, index: number) => string;
+}
+
+export interface IQueryParameter {
+    name: string;
+    /**
+     * The trimmed code of the bind parameter.
+     */
+    code: string;
+    node: IBindParameterNode;
+}
+
+export interface ICompiledQuery {
+    sql: string;
+    /**
+     * With positional placeholders, one parameter for every placeholder in order.
+     * With named placeholders, one parameter for every name in the order of the first appearance.
+     */
+    parameters: IQueryParameter[];
+}
+
+function defaultParameterName(code: string, index: number) {
+    const name = code.replace(/\W+/g, '_').replace(/^_+|_+$/g, '');
+    return !name || /^\d/.test(name) ? `p${index + 1}` : name;
+}
+
+/**
+ * Compile the template to a prepared statement. Every `#{: expr }` becomes a placeholder,
+ * the `#{ expr }` are still inlined with their values, and the branches are chosen by `options.resolveBranch`.
+ * @param template the template text or the parsed document
+ * @param context the context which the inlined expressions and by default the conditions are evaluated against
+ * @param options the compile options
+ */
+export function compile(template: string | IDocumentNode, context?: any, options: ICompileOptions = {}): ICompiledQuery {
+    const {
+        evaluator = evaluateExpression,
+        stringify = defaultStringify,
+        parserOptions = DEFAULT_PARSER_OPTIONS,
+        placeholder = 'positional',
+        resolveBranch,
+        parameterName = defaultParameterName,
+        directives,
+    } = options;
+    const document = typeof template === 'string' ? parse(template, parserOptions) : template;
+    const parameters: IQueryParameter[] = [];
+    const namesByCode: { [code: string]: string } = {};
+    const usedNames: { [name: string]: boolean } = {};
+    const createHandlers = (current: any): IRenderHandlers => ({
+        expression: node => stringify(evaluator(node.code, current), node),
+        bindParameter: node => {
+            const code = node.code.trim();
+            if (placeholder === 'positional') {
+                parameters.push({ name: String(parameters.length + 1), code, node });
+                return '?';
+            }
+            let name = namesByCode[code];
+            if (!name) {
+                const base = parameterName(code, parameters.length);
+                name = base;
+                for (let i = 2; usedNames[name]; ++ i) {
+                    name = `${base}_${i}`;
+                }
+                namesByCode[code] = name;
+                usedNames[name] = true;
+                parameters.push({ name, code, node });
+            }
+            return `:${name}`;
+        },
+        test: resolveBranch || (code => !!evaluator(code, current)),
+        directive: createDirectiveHandler(directives, evaluator, createHandlers, current),
+    });
+    const sql = renderDocument(document, createHandlers(context));
+    return { sql, parameters };
+}
+
+/**
+ * Evaluate the parameters of the compiled query against the context, in the order of the parameters.
+ */
+export function getParameterValues(parameters: IQueryParameter[], context: any, evaluator: Evaluator = evaluateExpression): any[] {
+    return parameters.map(({ code }) => evaluator(code, context));
+}
@@ -0,0 +1,367 @@
+import {
+    BlockKind,
+    DEFAULT_DELIMITERS,
+    EscapeStrategy,
+    IDelimiterProfile,
+    IFlagDefinition,
+    IOpenCondition,
+    IPattern,
+    IRecoverPolicy,
+    ITemplateOptions,
+    PatternLike,
+} from './index';
+
+/**
+ * A string matches itself, an object is a RegExp, such as `{ "regExp": "#\\{\\s*", "flags": "i" }`.
+ */
+export type PatternLikeConfig = string | { regExp: string, flags?: string };
+
+/**
+ * The json form of `IPattern`.
+ */
+export interface IPatternConfig {
+    name?: string;
+    /**
+     * The mode name or the mode spec object.
+     */
+    mode?: any;
+    open?: PatternLikeConfig;
+    close?: PatternLikeConfig;
+    escape?: PatternLikeConfig;
+    escapeStrategy?: EscapeStrategy;
+    escapeStyle?: string;
+    /**
+     * The ids of the patterns of `ITemplateConfig.patterns`, or the patterns themselves.
+     * The ids may refer to the pattern itself or its ancestors, so the graph may be cyclic.
+     */
+    children?: Array<string | IPatternConfig>;
+    includePattern?: boolean;
+    patternStyles?: [string | null, string | null];
+    contentStyle?: string;
+    indent?: boolean;
+    openWhen?: IOpenCondition;
+    transparent?: boolean;
+    recover?: {
+        maxLines?: number;
+        blankLine?: boolean;
+        resync?: PatternLikeConfig[];
+        popOnUnmatchedClose?: boolean;
+    };
+}
+
+/**
+ * The json form of `ITemplateOptions`. Without `children`, the default pattern graph is used.
+ */
+export interface ITemplateConfig extends IPatternConfig {
+    name: 'cxj-template';
+    codeMode?: any;
+    flags?: IFlagDefinition[];
+    delimiters?: Partial<IDelimiterProfile>;
+    modes?: {
+        [name: string]: any;
+    };
+    /**
+     * The patterns referred by the ids.
+     */
+    patterns?: {
+        [id: string]: IPatternConfig;
+    };
+}
+
+const PATTERN_KEYS = ['name', 'mode', 'open', 'close', 'escape', 'escapeStrategy', 'escapeStyle', 'children', 'includePattern', 'patternStyles', 'contentStyle', 'indent', 'openWhen', 'transparent', 'recover'];
+const ESCAPE_STRATEGIES: EscapeStrategy[] = ['backslash', 'double', 'none'];
+const TEMPLATE_KEYS = [...PATTERN_KEYS, 'codeMode', 'flags', 'delimiters', 'modes', 'patterns'];
+const FLAG_KEYS = ['keyword', 'blocks', 'repeat', 'optional', 'conditional'];
+const BLOCK_KINDS: BlockKind[] = ['code', 'template'];
+/**
+ * The delimiters which may be null to turn the construct off.
+ */
+const NULLABLE_DELIMITERS = ['bindMarker', 'commentOpen', 'textEscape'];
+
+function isObject(value: any): value is { [key: string]: any } {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function fail(path: string, message: string): never {
+    throw new Error(`Invalid template config at ${path}: ${message}`);
+}
+
+function checkKeys(value: { [key: string]: any }, keys: string[], path: string) {
+    for (const key of Object.keys(value)) {
+        if (keys.indexOf(key) === -1) {
+            fail(path, `unknown property "${key}".`);
+        }
+    }
+}
+
+function checkType(value: any, type: string, path: string) {
+    if (value !== undefined && typeof value !== type) {
+        fail(path, `expected a ${type}.`);
+    }
+}
+
+function checkStringArray(value: any, path: string) {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        fail(path, 'expected an array of strings.');
+    }
+}
+
+function checkMode(mode: any, path: string) {
+    if (mode !== undefined && mode !== null && typeof mode !== 'string' && !isObject(mode)) {
+        fail(path, 'expected a mode name or a mode spec object.');
+    }
+}
+
+function checkBlockKinds(kinds: any, path: string) {
+    if (!Array.isArray(kinds) || kinds.some(kind => BLOCK_KINDS.indexOf(kind) === -1)) {
+        fail(path, `expected an array of ${BLOCK_KINDS.join(' or ')}.`);
+    }
+}
+
+function checkFlag(flag: any, path: string) {
+    if (!isObject(flag)) {
+        fail(path, 'expected an object.');
+    }
+    checkKeys(flag, FLAG_KEYS, path);
+    const { keyword, blocks, repeat, optional, conditional } = flag;
+    if (typeof keyword !== 'string' || !keyword.trim()) {
+        fail(`${path}.keyword`, 'expected a keyword.');
+    }
+    checkBlockKinds(blocks, `${path}.blocks`);
+    if (repeat !== undefined) {
+        checkBlockKinds(repeat, `${path}.repeat`);
+    }
+    if (optional !== undefined && BLOCK_KINDS.indexOf(optional) === -1) {
+        fail(`${path}.optional`, `expected ${BLOCK_KINDS.join(' or ')}.`);
+    }
+    checkType(conditional, 'boolean', `${path}.conditional`);
+}
+
+function checkDelimiters(delimiters: { [key: string]: any }, path: string) {
+    checkKeys(delimiters, Object.keys(DEFAULT_DELIMITERS), path);
+    for (const key of Object.keys(delimiters)) {
+        const value = delimiters[key];
+        const keyPath = `${path}.${key}`;
+        switch (key) {
+            case 'quotes':
+                checkStringArray(value, keyPath);
+                break;
+            case 'brackets':
+                if (!Array.isArray(value) || value.some(pair => !Array.isArray(pair) || pair.length !== 2 || pair.some(item => typeof item !== 'string' || !item))) {
+                    fail(keyPath, 'expected an array of [open, close] pairs.');
+                }
+                break;
+            case 'quoteEscape':
+                if (ESCAPE_STRATEGIES.indexOf(value) === -1) {
+                    fail(keyPath, `expected one of ${ESCAPE_STRATEGIES.join(', ')}.`);
+                }
+                break;
+            default:
+                if (value === null && NULLABLE_DELIMITERS.indexOf(key) !== -1) {
+                    break;
+                }
+                if (typeof value !== 'string' || !value) {
+                    fail(keyPath, NULLABLE_DELIMITERS.indexOf(key) === -1 ? 'expected a non-empty string.' : 'expected a non-empty string or null.');
+                }
+        }
+    }
+}
+
+function loadPatternLike(config: PatternLikeConfig | undefined, path: string): string | RegExp | undefined {
+    if (config === undefined || typeof config === 'string') {
+        return config;
+    }
+    if (!isObject(config) || typeof config.regExp !== 'string') {
+        fail(path, 'expected a string or a { regExp, flags } object.');
+    }
+    checkKeys(config, ['regExp', 'flags'], path);
+    checkType(config.flags, 'string', `${path}.flags`);
+    try {
+        return new RegExp(config.regExp, config.flags);
+    } catch (e) {
+        return fail(path, e.message);
+    }
+}
+
+/**
+ * The properties whose value is defined, so a property left out of the config is left out of the result too.
+ */
+function pickDefined<T extends object>(values: T): Partial<T> {
+    const picked: Partial<T> = {};
+    for (const key in values) {
+        if (values[key] !== undefined) {
+            picked[key] = values[key];
+        }
+    }
+    return picked;
+}
+
+function checkOpenCondition(condition: any, path: string) {
+    if (!isObject(condition)) {
+        fail(path, 'expected an object.');
+    }
+    checkKeys(condition, ['after', 'whitespace', 'newline', 'parents'], path);
+    for (const key of ['after', 'parents']) {
+        if (condition[key] !== undefined) {
+            checkStringArray(condition[key], `${path}.${key}`);
+        }
+    }
+    checkType(condition.whitespace, 'boolean', `${path}.whitespace`);
+    checkType(condition.newline, 'boolean', `${path}.newline`);
+}
+
+function loadRecoverPolicy(config: IPatternConfig['recover'], path: string): IRecoverPolicy | undefined {
+    if (config === undefined) {
+        return undefined;
+    }
+    if (!isObject(config)) {
+        return fail(path, 'expected an object.');
+    }
+    checkKeys(config, ['maxLines', 'blankLine', 'resync', 'popOnUnmatchedClose'], path);
+    const { maxLines, blankLine, resync, popOnUnmatchedClose } = config;
+    if (maxLines !== undefined && (typeof maxLines !== 'number' || maxLines < 1 || maxLines % 1 !== 0)) {
+        fail(`${path}.maxLines`, 'expected a positive integer.');
+    }
+    checkType(blankLine, 'boolean', `${path}.blankLine`);
+    checkType(popOnUnmatchedClose, 'boolean', `${path}.popOnUnmatchedClose`);
+    if (resync !== undefined && !Array.isArray(resync)) {
+        fail(`${path}.resync`, 'expected an array.');
+    }
+    return pickDefined({
+        maxLines,
+        blankLine,
+        resync: resync && resync.map((pattern, i) => loadPatternLike(pattern, `${path}.resync[${i}]`) as PatternLike),
+        popOnUnmatchedClose,
+    });
+}
+
+function checkPatternStyles(styles: any, path: string) {
+    if (styles !== undefined && (!Array.isArray(styles) || styles.length !== 2 || styles.some(style => style !== null && typeof style !== 'string'))) {
+        fail(path, 'expected a pair of strings or nulls.');
+    }
+}
+
+interface ILoadContext {
+    definitions: { [id: string]: IPatternConfig };
+    patterns: { [id: string]: IPattern };
+}
+
+/**
+ * Fill the pattern from the config. The children referred by the ids are the shared pattern objects, so the cycles are kept.
+ */
+function fillPattern(context: ILoadContext, pattern: IPattern, config: IPatternConfig, path: string, keys = PATTERN_KEYS) {
+    if (!isObject(config)) {
+        fail(path, 'expected an object.');
+    }
+    checkKeys(config, keys, path);
+    const {
+        name, mode, open, close, escape, escapeStrategy, escapeStyle, children,
+        includePattern, patternStyles, contentStyle, indent, openWhen, transparent, recover,
+    } = config;
+    checkType(name, 'string', `${path}.name`);
+    checkType(includePattern, 'boolean', `${path}.includePattern`);
+    checkType(contentStyle, 'string', `${path}.contentStyle`);
+    checkType(escapeStyle, 'string', `${path}.escapeStyle`);
+    checkType(indent, 'boolean', `${path}.indent`);
+    checkType(transparent, 'boolean', `${path}.transparent`);
+    checkPatternStyles(patternStyles, `${path}.patternStyles`);
+    checkMode(mode, `${path}.mode`);
+    if (escapeStrategy !== undefined && ESCAPE_STRATEGIES.indexOf(escapeStrategy) === -1) {
+        fail(`${path}.escapeStrategy`, `expected one of ${ESCAPE_STRATEGIES.join(', ')}.`);
+    }
+    if (openWhen !== undefined) {
+        checkOpenCondition(openWhen, `${path}.openWhen`);
+    }
+    if (children !== undefined && !Array.isArray(children)) {
+        fail(`${path}.children`, 'expected an array.');
+    }
+    pattern.mode = mode === undefined ? null : mode;
+    const loaded: Partial<IPattern> = pickDefined({
+        name,
+        open: loadPatternLike(open, `${path}.open`),
+        close: loadPatternLike(close, `${path}.close`),
+        escape: loadPatternLike(escape, `${path}.escape`),
+        escapeStrategy,
+        escapeStyle,
+        includePattern,
+        patternStyles,
+        contentStyle,
+        indent,
+        openWhen,
+        transparent,
+        recover: loadRecoverPolicy(recover, `${path}.recover`),
+        children: children && children.map((child, i) => loadChild(context, child, `${path}.children[${i}]`)),
+    });
+    Object.assign(pattern, loaded);
+}
+
+function loadChild(context: ILoadContext, child: string | IPatternConfig, path: string): IPattern {
+    if (typeof child !== 'string') {
+        const pattern: IPattern = { mode: null };
+        fillPattern(context, pattern, child, path);
+        return pattern;
+    }
+    if (!context.definitions.hasOwnProperty(child)) {
+        return fail(path, `no pattern with the id "${child}".`);
+    }
+    return context.patterns[child];
+}
+
+/**
+ * Build the options of the mode from the json config, which declares the patterns without any function.
+ * The config is validated, and an error tells the path of the first invalid value.
+ * @param config the config or its json text
+ */
+export function loadTemplateConfig(config: string | ITemplateConfig): ITemplateOptions {
+    const json: ITemplateConfig = typeof config === 'string' ? JSON.parse(config) : config;
+    if (!isObject(json) || json.name !== 'cxj-template') {
+        return fail('config', 'expected an object with the name "cxj-template".');
+    }
+    const { patterns: definitions = {}, codeMode, flags, delimiters, modes, ...root } = json;
+    if (!isObject(definitions)) {
+        fail('config.patterns', 'expected an object.');
+    }
+    if (flags !== undefined) {
+        if (!Array.isArray(flags)) {
+            fail('config.flags', 'expected an array.');
+        }
+        flags.forEach((flag, i) => checkFlag(flag, `config.flags[${i}]`));
+    }
+    if (delimiters !== undefined) {
+        if (!isObject(delimiters)) {
+            fail('config.delimiters', 'expected an object.');
+        }
+        checkDelimiters(delimiters, 'config.delimiters');
+    }
+    if (modes !== undefined) {
+        if (!isObject(modes)) {
+            fail('config.modes', 'expected an object.');
+        }
+        for (const name of Object.keys(modes)) {
+            checkMode(modes[name], `config.modes.${name}`);
+        }
+    }
+    checkMode(codeMode, 'config.codeMode');
+    const context: ILoadContext = { definitions, patterns: {} };
+    // Create the patterns first, so the ids resolve to them whatever the order and the cycles.
+    for (const id of Object.keys(definitions)) {
+        context.patterns[id] = { mode: null };
+    }
+    for (const id of Object.keys(definitions)) {
+        fillPattern(context, context.patterns[id], definitions[id], `config.patterns.${id}`);
+    }
+    const options = { name: 'cxj-template', codeMode: codeMode === undefined ? null : codeMode, mode: null } as ITemplateOptions;
+    fillPattern(context, options, root, 'config', TEMPLATE_KEYS);
+    options.name = 'cxj-template';
+    options.codeMode = codeMode === undefined ? null : codeMode;
+    if (flags) {
+        options.flags = flags;
+    }
+    if (delimiters) {
+        options.delimiters = delimiters;
+    }
+    if (modes) {
+        options.modes = modes;
+    }
+    return options;
+}
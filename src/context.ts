@@ -0,0 +1,189 @@
+import CodeMirror, { Editor, Mode, Position } from 'codemirror';
+import { getEditorCache, getEditorDocument, getEditorOptions } from './editor';
+import { IPattern, IPatternContext, IScannedLayer, ITemplateOptions, scanTemplate } from './index';
+import { findBranchAt, ITemplateBranch } from './match';
+
+declare module 'codemirror' {
+    interface EditorConfiguration {
+        templateRegionEvents?: boolean;
+    }
+}
+
+export interface ITemplateRange {
+    from: Position;
+    to: Position;
+}
+
+/**
+ * A pattern opened around the position.
+ */
+export interface ITemplateRegion {
+    pattern: IPattern;
+    /**
+     * The mode resolved when the pattern opens, null without any.
+     */
+    mode: any;
+    open: ITemplateRange;
+    /**
+     * The close delimiter, empty where the pattern is closed by its recovery policy, null if the pattern is never closed.
+     */
+    close: ITemplateRange | null;
+}
+
+export interface ITemplateContext {
+    /**
+     * The pattern stack at the position, from the outermost pattern to the innermost one. A delimiter belongs to the pattern outside of it.
+     */
+    patterns: IPattern[];
+    /**
+     * The regions of the pattern stack, the root pattern excluded.
+     */
+    regions: ITemplateRegion[];
+    /**
+     * The name of the innermost mode, `cxj-template` where there is no inner mode.
+     */
+    modeName: string;
+    mode: Mode<any>;
+    state: any;
+    /**
+     * The branch of the innermost `#[if]` chain at the position, null outside of any.
+     */
+    branch: ITemplateBranch | null;
+}
+
+interface IRegionEntry {
+    context: IPatternContext;
+    /**
+     * The regions of the pattern stack up to the context.
+     */
+    regions: ITemplateRegion[];
+}
+
+interface IRegionScan {
+    layers: IScannedLayer[];
+    root: IPatternContext;
+    /**
+     * The regions of the pattern stack after every delimiter.
+     */
+    regions: ITemplateRegion[][];
+}
+
+interface IRegionEventState {
+    regions: ITemplateRegion[];
+}
+
+/**
+ * Whether the position a is before the position b or at it.
+ */
+function isBefore(a: Position, b: Position) {
+    return a.line < b.line || (a.line === b.line && a.ch <= b.ch);
+}
+
+function scanRegions(text: string, options: ITemplateOptions): IRegionScan {
+    const { layers, state } = scanTemplate(text, options);
+    let root = state.patternContext;
+    while (root.pre) {
+        root = root.pre;
+    }
+    const regions: ITemplateRegion[][] = [];
+    const opened: IRegionEntry[] = [{ context: root, regions: [] }];
+    for (const { line, pos, matched, open, nextContext } of layers) {
+        const range = { from: { line, ch: pos }, to: { line, ch: pos + (matched ? matched.length : 0) } };
+        if (open) {
+            const region: ITemplateRegion = { pattern: nextContext.pattern, mode: nextContext.mode, open: range, close: null };
+            opened.push({ context: nextContext, regions: [...opened[opened.length - 1].regions, region] });
+        } else if (opened.length > 1) {
+            const { regions: closed } = opened.pop()!;
+            closed[closed.length - 1].close = range;
+        }
+        regions.push(opened[opened.length - 1].regions);
+    }
+    return { layers, root, regions };
+}
+
+/**
+ * Find the first delimiter ending after the position.
+ */
+function findLayer({ layers }: IRegionScan, pos: Position): number {
+    let low = 0;
+    let high = layers.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        const { line, pos: ch, matched } = layers[middle];
+        if (isBefore({ line, ch: ch + (matched ? matched.length : 0) }, pos)) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+function isTemplateEditor(cm: Editor) {
+    return cm.getMode().name === 'cxj-template';
+}
+
+/**
+ * Get the structure of the template at the position: the pattern stack and the delimiters of its regions,
+ * the inner mode and its state, and the branch of the innermost `#[if]` chain. null if the mode of the editor is not cxj-template.
+ */
+export function getTemplateContextAt(cm: Editor, pos: Position): ITemplateContext | null {
+    if (!isTemplateEditor(cm)) {
+        return null;
+    }
+    const scan = getEditorCache(cm, 'regions', () => scanRegions(cm.getValue(), getEditorOptions(cm)));
+    const { layers, root } = scan;
+    const index = findLayer(scan, pos);
+    const patterns: IPattern[] = [];
+    for (let context: IPatternContext | null = index > 0 ? layers[index - 1].nextContext : root; context; context = context.pre) {
+        patterns.unshift(context.pattern);
+    }
+    const regions = index > 0 ? scan.regions[index - 1].slice() : [];
+    // The token read at the position ends after it, so inside a delimiter, the state is the one before the delimiter.
+    const next = layers[index];
+    const tokenPos = next && next.line === pos.line && next.pos < pos.ch ? { line: pos.line, ch: next.pos } : pos;
+    const { mode, state } = CodeMirror.innerMode(cm.getMode(), cm.getTokenAt(tokenPos, true).state);
+    return {
+        patterns,
+        regions,
+        modeName: mode.name || 'cxj-template',
+        mode,
+        state,
+        branch: findBranchAt(getEditorDocument(cm), cm.indexFromPos(pos)),
+    };
+}
+
+function isSameRegion(a: ITemplateRegion, b: ITemplateRegion) {
+    return a.pattern === b.pattern && a.open.from.line === b.open.from.line && a.open.from.ch === b.open.from.ch;
+}
+
+/**
+ * Signal the regions left, from the innermost one, then the regions entered, from the outermost one.
+ */
+function signalRegions(cm: Editor) {
+    const state: IRegionEventState = cm.state.cxjTemplateRegionEvents;
+    const context = getTemplateContextAt(cm, cm.getCursor());
+    const regions = context ? context.regions : [];
+    let kept = 0;
+    while (kept < state.regions.length && kept < regions.length && isSameRegion(state.regions[kept], regions[kept])) {
+        ++ kept;
+    }
+    const left = state.regions.slice(kept).reverse();
+    state.regions = regions;
+    left.forEach(region => CodeMirror.signal(cm, 'templateRegionLeave', cm, region));
+    regions.slice(kept).forEach(region => CodeMirror.signal(cm, 'templateRegionEnter', cm, region));
+}
+
+// The options do not exist with the runmode of node.
+if (CodeMirror.defineOption) {
+    CodeMirror.defineOption('templateRegionEvents', false, (cm: Editor, value: boolean, old: any) => {
+        if (old && old !== CodeMirror.Init) {
+            cm.off('cursorActivity', signalRegions);
+        }
+        if (value) {
+            cm.state.cxjTemplateRegionEvents = { regions: [] };
+            cm.on('cursorActivity', signalRegions);
+            signalRegions(cm);
+        }
+    });
+}
@@ -0,0 +1,40 @@
+import { Editor } from 'codemirror';
+import { ITemplateOptions } from './index';
+import { DEFAULT_PARSER_OPTIONS, IDocumentNode, parse } from './parser';
+
+interface ICacheEntry {
+    generation: number;
+    mode: any;
+    value: any;
+}
+
+/**
+ * Get the mode options of the editor, the default options if the mode is not configured by an object.
+ */
+export function getEditorOptions(cm: Editor): ITemplateOptions {
+    const mode = cm.getOption('mode');
+    return mode && typeof mode === 'object' ? mode : DEFAULT_PARSER_OPTIONS;
+}
+
+/**
+ * Compute the value from the document of the editor once, until the document or the mode changes.
+ */
+export function getEditorCache<T>(cm: Editor, key: string, compute: (cm: Editor) => T): T {
+    const generation = cm.changeGeneration();
+    const mode = cm.getOption('mode');
+    const cacheKey = `cxjTemplate-${key}`;
+    const entry: ICacheEntry | undefined = cm.state[cacheKey];
+    if (entry && entry.generation === generation && entry.mode === mode) {
+        return entry.value;
+    }
+    const value = compute(cm);
+    cm.state[cacheKey] = { generation, mode, value };
+    return value;
+}
+
+/**
+ * Get the parsed document of the editor.
+ */
+export function getEditorDocument(cm: Editor): IDocumentNode {
+    return getEditorCache(cm, 'document', () => parse(cm.getValue(), getEditorOptions(cm)));
+}
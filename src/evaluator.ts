@@ -0,0 +1,225 @@
+/**
+ * Evaluate the code of a `#{ }` region against the context.
+ */
+export type Evaluator = (code: string, context: any) => any;
+
+enum TokenType {
+    NUMBER,
+    STRING,
+    IDENTIFIER,
+    OPERATOR,
+}
+
+interface IToken {
+    type: TokenType;
+    value: string;
+    pos: number;
+}
+
+const REG_TOKEN = /^\s*(?:(\d+(?:\.\d+)?)|('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")|([A-Za-z_$][\w$]*)|(===|!==|==|!=|<=|>=|&&|\|\||\?\.|[<>!().[\]]))/;
+const REG_TAIL = /^\s*$/;
+const FORBIDDEN_PROPERTIES = ['__proto__', 'constructor', 'prototype'];
+const LITERALS: { [name: string]: any } = {
+    true: true,
+    false: false,
+    null: null,
+    undefined,
+};
+
+function tokenizeExpression(code: string): IToken[] {
+    const tokens: IToken[] = [];
+    let pos = 0;
+    while (!REG_TAIL.test(code.slice(pos))) {
+        const result = REG_TOKEN.exec(code.slice(pos));
+        if (!result) {
+            throw new Error(`Unsupported expression "${code}" at ${pos}.`);
+        }
+        const [all, num, str, identifier, operator] = result;
+        const start = pos + all.length - (num || str || identifier || operator).length;
+        if (num) {
+            tokens.push({ type: TokenType.NUMBER, value: num, pos: start });
+        } else if (str) {
+            tokens.push({ type: TokenType.STRING, value: str, pos: start });
+        } else if (identifier) {
+            tokens.push({ type: TokenType.IDENTIFIER, value: identifier, pos: start });
+        } else {
+            tokens.push({ type: TokenType.OPERATOR, value: operator === '?.' ? '.' : operator, pos: start });
+        }
+        pos += all.length;
+    }
+    return tokens;
+}
+
+function unquote(str: string) {
+    return str.slice(1, -1).replace(/\\(.)/g, (_, ch: string) => {
+        switch (ch) {
+            case 'n':
+                return '\n';
+            case 't':
+                return '\t';
+            case 'r':
+                return '\r';
+            default:
+                return ch;
+        }
+    });
+}
+
+function getProperty(target: any, property: any) {
+    if (target === null || target === undefined) {
+        return undefined;
+    }
+    const key = String(property);
+    if (FORBIDDEN_PROPERTIES.indexOf(key) !== -1) {
+        throw new Error(`Access to the property "${key}" is not allowed.`);
+    }
+    return target[key];
+}
+
+function looseEquals(a: any, b: any) {
+    return a === b || (a === null || a === undefined) && (b === null || b === undefined);
+}
+
+class ExpressionParser {
+    private index = 0;
+
+    constructor(private readonly code: string, private readonly tokens: IToken[], private readonly context: any) {}
+
+    parse() {
+        const value = this.parseOr();
+        if (this.index < this.tokens.length) {
+            this.fail(this.tokens[this.index]);
+        }
+        return value;
+    }
+
+    private fail(token?: IToken): never {
+        const where = token ? `"${token.value}" at ${token.pos}` : 'the end';
+        throw new Error(`Unexpected ${where} in expression "${this.code}".`);
+    }
+
+    private peekOperator(...operators: string[]): string | null {
+        const token = this.tokens[this.index];
+        return token && token.type === TokenType.OPERATOR && operators.indexOf(token.value) !== -1 ? token.value : null;
+    }
+
+    private expectOperator(operator: string) {
+        if (!this.peekOperator(operator)) {
+            this.fail(this.tokens[this.index]);
+        }
+        ++ this.index;
+    }
+
+    private parseOr(): any {
+        let value = this.parseAnd();
+        while (this.peekOperator('||')) {
+            ++ this.index;
+            const right = this.parseAnd();
+            value = value || right;
+        }
+        return value;
+    }
+
+    private parseAnd(): any {
+        let value = this.parseComparison();
+        while (this.peekOperator('&&')) {
+            ++ this.index;
+            const right = this.parseComparison();
+            value = value && right;
+        }
+        return value;
+    }
+
+    private parseComparison(): any {
+        const left = this.parseUnary();
+        const operator = this.peekOperator('===', '!==', '==', '!=', '<=', '>=', '<', '>');
+        if (!operator) {
+            return left;
+        }
+        ++ this.index;
+        const right = this.parseUnary();
+        switch (operator) {
+            case '===':
+                return left === right;
+            case '!==':
+                return left !== right;
+            case '==':
+                return looseEquals(left, right);
+            case '!=':
+                return !looseEquals(left, right);
+            case '<=':
+                return left <= right;
+            case '>=':
+                return left >= right;
+            case '<':
+                return left < right;
+            default:
+                return left > right;
+        }
+    }
+
+    private parseUnary(): any {
+        if (this.peekOperator('!')) {
+            ++ this.index;
+            return !this.parseUnary();
+        }
+        return this.parsePath();
+    }
+
+    private parsePath(): any {
+        let value = this.parsePrimary();
+        while (this.peekOperator('.', '[')) {
+            if (this.peekOperator('.')) {
+                ++ this.index;
+                const token = this.tokens[this.index];
+                if (!token || token.type !== TokenType.IDENTIFIER) {
+                    this.fail(token);
+                }
+                ++ this.index;
+                value = getProperty(value, token.value);
+            } else {
+                ++ this.index;
+                const property = this.parseOr();
+                this.expectOperator(']');
+                value = getProperty(value, property);
+            }
+        }
+        return value;
+    }
+
+    private parsePrimary(): any {
+        const token = this.tokens[this.index];
+        if (!token) {
+            this.fail();
+        }
+        ++ this.index;
+        switch (token.type) {
+            case TokenType.NUMBER:
+                return Number(token.value);
+            case TokenType.STRING:
+                return unquote(token.value);
+            case TokenType.IDENTIFIER:
+                if (LITERALS.hasOwnProperty(token.value)) {
+                    return LITERALS[token.value];
+                }
+                return getProperty(this.context, token.value);
+            default:
+                if (token.value === '(') {
+                    const value = this.parseOr();
+                    this.expectOperator(')');
+                    return value;
+                }
+                return this.fail(token);
+        }
+    }
+}
+
+/**
+ * The built-in evaluator. It never runs the code, and only supports
+ * property paths (`a.b`, `a?.b`, `a['b']`, `a[0]`), string, number, boolean and null literals,
+ * comparisons (`==`, `!=`, `===`, `!==`, `<`, `<=`, `>`, `>=`), `!`, `&&`, `||` and parentheses.
+ * `==` treats `null` and `undefined` as equal, otherwise it is strict.
+ */
+export const evaluateExpression: Evaluator = (code, context) => {
+    return new ExpressionParser(code, tokenizeExpression(code), context).parse();
+};
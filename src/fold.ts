@@ -0,0 +1,79 @@
+import { Editor, Position } from 'codemirror';
+import { getEditorCache, getEditorDocument } from './editor';
+import { registerTemplateHelper } from './index';
+import { IBlockNode, IDocumentNode, ISourcePosition, ISourceRange, TemplateNode } from './parser';
+
+export interface IFoldRange {
+    from: Position;
+    to: Position;
+}
+
+function toPosition({ line, ch }: ISourcePosition): Position {
+    return { line, ch };
+}
+
+function addRange(ranges: IFoldRange[], from: ISourcePosition, to: ISourcePosition) {
+    if (to.line > from.line && !ranges[from.line]) {
+        ranges[from.line] = { from: toPosition(from), to: toPosition(to) };
+    }
+}
+
+function addBlock(ranges: IFoldRange[], { contentRange, children }: IBlockNode) {
+    addRange(ranges, contentRange.from, contentRange.to);
+    collectRanges(ranges, children);
+}
+
+function addChain(ranges: IFoldRange[], header: { range: ISourceRange }, range: ISourceRange, blocks: IBlockNode[]) {
+    addRange(ranges, header.range.to, range.to);
+    blocks.forEach(block => addBlock(ranges, block));
+}
+
+function collectRanges(ranges: IFoldRange[], nodes: TemplateNode[]) {
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'comment':
+                addRange(ranges, node.contentRange.from, node.contentRange.to);
+                break;
+            case 'expression':
+            case 'bind-parameter':
+                addRange(ranges, node.codeRange.from, node.codeRange.to);
+                break;
+            case 'block':
+                addBlock(ranges, node);
+                break;
+            case 'directive':
+                addChain(ranges, node.header, node.range, node.blocks);
+                break;
+            case 'conditional': {
+                const blocks: IBlockNode[] = [];
+                node.branches.forEach(({ condition, body }) => blocks.push(condition, body));
+                if (node.elseBody) {
+                    blocks.push(node.elseBody);
+                }
+                addChain(ranges, node.header, node.range, blocks);
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Find the fold ranges of the document, by the start line.
+ * When several regions start on the same line, the outermost one wins.
+ * The whole flag chain folds from its header, every block folds its content, and so do the multi-line `#{ }` regions and comments.
+ */
+export function getFoldRanges(document: IDocumentNode): IFoldRange[] {
+    const ranges: IFoldRange[] = [];
+    collectRanges(ranges, document.children);
+    return ranges;
+}
+
+/**
+ * The fold helper of the cxj-template mode.
+ */
+export function templateFold(cm: Editor, start: Position): IFoldRange | undefined {
+    const ranges = getEditorCache(cm, 'fold', () => getFoldRanges(getEditorDocument(cm)));
+    return ranges[start.line];
+}
+
+registerTemplateHelper('fold', templateFold);
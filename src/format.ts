@@ -0,0 +1,263 @@
+import CodeMirror, { Editor } from 'codemirror';
+import { getEditorOptions } from './editor';
+import { DEFAULT_DELIMITERS, IDelimiterProfile, ITemplateOptions, registerTemplateCommand, resolveOptions } from './index';
+import {
+    DEFAULT_PARSER_OPTIONS,
+    IBindParameterNode,
+    IBlockNode,
+    IConditionalNode,
+    IDirectiveNode,
+    IExpressionNode,
+    ISourceRange,
+    parse,
+    TemplateNode,
+} from './parser';
+
+declare module 'codemirror' {
+    interface EditorConfiguration {
+        /**
+         * The format options of the `formatTemplate` command, the indentation and the parser options excluded.
+         */
+        templateFormat?: IFormatOptions | null;
+    }
+}
+
+export interface IFormatOptions {
+    /**
+     * The options used to parse the template.
+     */
+    parserOptions?: ITemplateOptions;
+    /**
+     * The indentation of the lines of a template block. Default is two spaces.
+     */
+    indent?: string;
+    /**
+     * Format the code of a `#{ }` region, the whitespaces around the code excluded. Default keeps the code as it is.
+     */
+    formatCode?: (code: string, node: IExpressionNode | IBindParameterNode) => string;
+}
+
+interface IFormatContext {
+    text: string;
+    profile: IDelimiterProfile;
+    indent: string;
+    formatCode?: IFormatOptions['formatCode'];
+}
+
+const REG_SPACE = /^\s*$/;
+const REG_LINE_INDENTATION = /\n[ \t]*/g;
+const REG_LAST_LINE = /[^\n]*$/;
+const REG_INDENTATION = /^[ \t]*/;
+const REG_BRACKET_END = /[[({]$/;
+
+function getSource({ text }: IFormatContext, { range }: { range: ISourceRange }) {
+    return text.slice(range.from.offset, range.to.offset);
+}
+
+/**
+ * Remove at most `dedent` leading whitespaces from every line but the first one.
+ */
+function dedentLines(text: string, dedent: number) {
+    return dedent ? text.replace(REG_LINE_INDENTATION, indentation => `\n${indentation.slice(1 + Math.min(dedent, indentation.length - 1))}`) : text;
+}
+
+function indentLines(text: string, indentation: string) {
+    return indentation ? text.replace(/\n/g, `\n${indentation}`) : text;
+}
+
+/**
+ * The minimal indentation of the lines starting in the text of the block, the lines of the nested constructs excluded.
+ */
+function getBlockIndentation(context: IFormatContext, { children }: IBlockNode) {
+    let min = Infinity;
+    children.forEach((child, index) => {
+        if (child.type !== 'text') {
+            return;
+        }
+        const lines = getSource(context, child).split('\n').slice(1);
+        lines.forEach((line, i) => {
+            const last = i === lines.length - 1;
+            if (!REG_SPACE.test(line) || (last && index < children.length - 1)) {
+                min = Math.min(min, REG_INDENTATION.exec(line)![0].length);
+            }
+        });
+    });
+    return min === Infinity ? 0 : min;
+}
+
+/**
+ * The code block holds only a `#{ }` region, it is kept on the line of the header.
+ */
+function isCodeBlock(block: IBlockNode) {
+    if (block.kind) {
+        return block.kind === 'code';
+    }
+    const significant = block.children.filter(child => child.type !== 'text' || !REG_SPACE.test(child.text));
+    return significant.length === 1 && (significant[0].type === 'expression' || significant[0].type === 'bind-parameter');
+}
+
+function isClosed(context: IFormatContext, node: TemplateNode): boolean {
+    const { profile } = context;
+    switch (node.type) {
+        case 'expression':
+        case 'bind-parameter':
+            return node.codeRange.to.offset < node.range.to.offset;
+        case 'comment':
+        case 'block':
+            return node.contentRange.to.offset < node.range.to.offset;
+        case 'conditional':
+        case 'directive': {
+            const blocks = node.type === 'directive' ? node.blocks : getBlocks(node);
+            return getSource(context, node.header).endsWith(profile.headerClose) && blocks.every(block => isClosed(context, block));
+        }
+        default:
+            return true;
+    }
+}
+
+function getBlocks({ branches, elseBody }: IConditionalNode) {
+    const blocks: IBlockNode[] = [];
+    branches.forEach(({ condition, body }) => blocks.push(condition, body));
+    if (elseBody) {
+        blocks.push(elseBody);
+    }
+    return blocks;
+}
+
+/**
+ * The code of several lines is kept as it is, the delimiters included, unless it is formatted.
+ */
+function formatCode(context: IFormatContext, node: IExpressionNode | IBindParameterNode, dedent: number) {
+    const { profile: { codeOpen, codeClose, bindMarker }, formatCode: formatter } = context;
+    if (!formatter && node.code.indexOf('\n') !== -1) {
+        return dedentLines(getSource(context, node), dedent);
+    }
+    const language = node.language ? `${node.language}:` : '';
+    const open = node.type === 'bind-parameter' ? `${codeOpen}${bindMarker}${language}` : `${codeOpen}${language}`;
+    const trimmed = node.code.trim();
+    const code = formatter ? formatter(trimmed, node) : trimmed;
+    return code ? `${open} ${code} ${codeClose}` : `${open}${codeClose}`;
+}
+
+function formatBlock(context: IFormatContext, block: IBlockNode) {
+    const { profile: { blockOpen, blockClose }, indent } = context;
+    if (isCodeBlock(block)) {
+        return `${blockOpen}${formatNodes(context, block.children, 0).trim()}${blockClose}`;
+    }
+    const lines = formatNodes(context, block.children, getBlockIndentation(context, block)).split('\n');
+    lines[0] = lines[0].trim();
+    while (lines.length && REG_SPACE.test(lines[0])) {
+        lines.shift();
+    }
+    while (lines.length && REG_SPACE.test(lines[lines.length - 1])) {
+        lines.pop();
+    }
+    if (!lines.length) {
+        return `${blockOpen}${blockClose}`;
+    }
+    const body = lines.map(line => REG_SPACE.test(line) ? '' : `${indent}${line.replace(/\s+$/, '')}`).join('\n');
+    return `${blockOpen}\n${body}\n${blockClose}`;
+}
+
+/**
+ * The header delimiters ending with a bracket, such as `#[`, hug the keyword, the others, such as `{%`, are padded with a space.
+ */
+function getHeaderPadding({ headerOpen }: IDelimiterProfile) {
+    return REG_BRACKET_END.test(headerOpen) ? '' : ' ';
+}
+
+/**
+ * Put the header and the blocks together. The comments between the blocks are kept, even though the parser skips them.
+ */
+function formatChain(context: IFormatContext, node: IConditionalNode | IDirectiveNode) {
+    const { text, profile } = context;
+    const blocks = node.type === 'directive' ? node.blocks : getBlocks(node);
+    const { keyword, argument } = node.header;
+    const padding = getHeaderPadding(profile);
+    let formatted = `${profile.headerOpen}${padding}${keyword}${argument === null ? '' : `=${argument}`}${padding}${profile.headerClose}`;
+    let last = node.header.range.to.offset;
+    for (const block of blocks) {
+        const between = text.slice(last, block.range.from.offset).trim();
+        formatted += (between ? ` ${between} ` : '') + formatBlock(context, block);
+        last = block.range.to.offset;
+    }
+    return formatted;
+}
+
+function formatNodes(context: IFormatContext, nodes: TemplateNode[], dedent: number): string {
+    let formatted = '';
+    for (const node of nodes) {
+        if (!isClosed(context, node)) {
+            formatted += getSource(context, node);
+            continue;
+        }
+        switch (node.type) {
+            case 'text':
+            case 'comment':
+                formatted += dedentLines(getSource(context, node), dedent);
+                break;
+            case 'expression':
+            case 'bind-parameter':
+                formatted += formatCode(context, node, dedent);
+                break;
+            case 'block':
+                formatted += formatBlock(context, node);
+                break;
+            default: {
+                const indentation = REG_INDENTATION.exec(REG_LAST_LINE.exec(formatted)![0])![0];
+                formatted += indentLines(formatChain(context, node), indentation);
+            }
+        }
+    }
+    return formatted;
+}
+
+/**
+ * Rewrite the template to the canonical layout: every `][` separator of a template block starts a line,
+ * the template blocks are indented, and the whitespaces inside `#{ }` and `#[ ]` are normalized.
+ * The text is kept as it is besides the indentation, and so is the `#{ }` region of several lines unless `options.formatCode` is given.
+ * The constructs which are never closed are kept as they are.
+ * @param text the template
+ * @param options the format options
+ */
+export function format(text: string, options: IFormatOptions = {}): string {
+    const { parserOptions = DEFAULT_PARSER_OPTIONS, indent = '  ', formatCode: formatter } = options;
+    const { delimiters } = resolveOptions(parserOptions);
+    const context: IFormatContext = {
+        text,
+        profile: { ...DEFAULT_DELIMITERS, ...delimiters },
+        indent,
+        formatCode: formatter,
+    };
+    return formatNodes(context, parse(text, parserOptions).children, 0);
+}
+
+/**
+ * Format the document of the editor, with the indentation of the editor and the `templateFormat` option.
+ */
+export function formatTemplate(cm: Editor) {
+    if (cm.getMode().name !== 'cxj-template') {
+        return;
+    }
+    const text = cm.getValue();
+    const indentUnit: number = cm.getOption('indentUnit') || 2;
+    const indent = cm.getOption('indentWithTabs') ? '\t' : ' '.repeat(indentUnit);
+    const formatted = format(text, {
+        indent,
+        ...cm.getOption('templateFormat'),
+        parserOptions: getEditorOptions(cm),
+    });
+    if (formatted !== text) {
+        const cursor = cm.getCursor();
+        const lastLine = cm.lastLine();
+        cm.replaceRange(formatted, { line: 0, ch: 0 }, { line: lastLine, ch: cm.getLine(lastLine).length });
+        cm.setCursor(cursor);
+    }
+}
+
+registerTemplateCommand('formatTemplate', formatTemplate);
+
+// The options do not exist with the runmode of node.
+if (CodeMirror.defineOption) {
+    CodeMirror.defineOption('templateFormat', null, () => undefined);
+}
@@ -0,0 +1,199 @@
+import CodeMirror, { Editor, Position } from 'codemirror';
+import { getEditorOptions } from './editor';
+import { DEFAULT_DELIMITERS, getPatternsAfterToken, IDelimiterProfile, IFlagDefinition, ITemplateState, registerTemplateHelper, resolveOptions } from './index';
+
+declare module 'codemirror' {
+    /**
+     * The hint helpers by the mode name, such as the one of the sql-hint addon. Undefined until any hint helper is registered.
+     */
+    var hint: {
+        [mode: string]: {
+            (cm: CodeMirror.Editor, options?: any): any;
+            async?: boolean;
+        };
+    } | undefined;
+}
+
+/**
+ * The variables of the context. Every key is a variable or a property, and an object value describes the properties of it.
+ * For example, `{ domainInfo: { type: true, id: true }, domain: true }`.
+ */
+export interface ITemplateHintSchema {
+    [name: string]: ITemplateHintSchema | boolean | string | null;
+}
+
+export interface ITemplateSnippet {
+    text: string;
+    displayText?: string;
+    /**
+     * A word which also triggers the snippet besides the beginning of the text, such as the flag keyword.
+     */
+    keyword?: string;
+    /**
+     * The offset of the cursor in the text after the snippet is picked. Default is the end of the text.
+     */
+    cursor?: number;
+}
+
+export interface ITemplateHintOptions {
+    schema?: ITemplateHintSchema;
+    /**
+     * More snippets besides the ones created from the flags.
+     */
+    snippets?: ITemplateSnippet[];
+}
+
+export interface ITemplateHint {
+    text: string;
+    displayText?: string;
+    className?: string;
+    from?: Position;
+    to?: Position;
+    hint?: (cm: Editor, data: ITemplateHints, completion: ITemplateHint) => void;
+}
+
+export interface ITemplateHints {
+    list: Array<ITemplateHint | string>;
+    from: Position;
+    to: Position;
+}
+
+const REG_FLAG_CHAR = /[\w-]/;
+const REG_PATH_CHAR = /[\w$.]/;
+const REG_WORD_CHAR = /\w/;
+
+function getWordStart(line: string, ch: number, reg: RegExp) {
+    let start = ch;
+    while (start > 0 && reg.test(line.charAt(start - 1))) {
+        -- start;
+    }
+    return start;
+}
+
+/**
+ * Create the snippet which expands the whole chain of the flag, such as `#[if][#{}][\n]`.
+ * @param flag the flag
+ * @param delimiters the delimiters of the mode
+ */
+export function createFlagSnippet(flag: IFlagDefinition, delimiters?: Partial<IDelimiterProfile>): ITemplateSnippet {
+    const { codeOpen, codeClose, headerOpen, headerClose, blockOpen, blockClose } = { ...DEFAULT_DELIMITERS, ...delimiters };
+    const header = `${headerOpen}${flag.keyword}${headerClose}`;
+    const code = `${blockOpen}${codeOpen}${codeClose}${blockClose}`;
+    const text = header + flag.blocks.map(kind => kind === 'code' ? code : `${blockOpen}\n${blockClose}`).join('');
+    const cursor = text.indexOf(`${codeOpen}${codeClose}`);
+    return {
+        text,
+        displayText: header + flag.blocks.map(kind => kind === 'code' ? `${blockOpen}${codeOpen} ${codeClose}${blockClose}` : `${blockOpen} ${blockClose}`).join(''),
+        keyword: flag.keyword,
+        cursor: cursor >= 0 ? cursor + codeOpen.length : text.length - blockClose.length,
+    };
+}
+
+function applySnippet(snippet: ITemplateSnippet) {
+    return (cm: Editor, data: ITemplateHints, completion: ITemplateHint) => {
+        const from = completion.from || data.from;
+        const to = completion.to || data.to;
+        cm.replaceRange(snippet.text, from, to, 'complete');
+        const cursor = snippet.cursor === undefined ? snippet.text.length : snippet.cursor;
+        cm.setCursor(cm.posFromIndex(cm.indexFromPos(from) + cursor));
+    };
+}
+
+function hintFlags(flags: IFlagDefinition[], line: string, cur: Position): ITemplateHints {
+    const start = getWordStart(line, cur.ch, REG_FLAG_CHAR);
+    const word = line.slice(start, cur.ch);
+    return {
+        list: flags.map(flag => flag.keyword).filter(keyword => keyword.indexOf(word) === 0),
+        from: { line: cur.line, ch: start },
+        to: cur,
+    };
+}
+
+function hintVariables(schema: ITemplateHintSchema, line: string, cur: Position): ITemplateHints {
+    const start = getWordStart(line, cur.ch, REG_PATH_CHAR);
+    const path = line.slice(start, cur.ch).split('.');
+    const word = path.pop()!;
+    let target: ITemplateHintSchema | null = schema;
+    for (const name of path) {
+        const value: any = target && target.hasOwnProperty(name) ? target[name] : null;
+        target = value && typeof value === 'object' ? value : null;
+    }
+    return {
+        list: target ? Object.keys(target).filter(name => name.indexOf(word) === 0) : [],
+        from: { line: cur.line, ch: cur.ch - word.length },
+        to: cur,
+    };
+}
+
+/**
+ * Get the length of the text before the cursor which triggers the snippet, 0 if the snippet is not triggered.
+ */
+function matchSnippet({ text, keyword }: ITemplateSnippet, before: string) {
+    for (let length = Math.min(text.length, before.length); length > 0; -- length) {
+        if (text.indexOf(before.slice(-length)) === 0) {
+            return length;
+        }
+    }
+    const word = before.slice(getWordStart(before, before.length, REG_WORD_CHAR));
+    return word && keyword && keyword.indexOf(word) === 0 ? word.length : 0;
+}
+
+function hintSnippets(snippets: ITemplateSnippet[], line: string, cur: Position): ITemplateHint[] {
+    const before = line.slice(0, cur.ch);
+    const hints: ITemplateHint[] = [];
+    for (const snippet of snippets) {
+        const length = matchSnippet(snippet, before);
+        if (length) {
+            hints.push({
+                text: snippet.text,
+                displayText: snippet.displayText || snippet.text,
+                className: 'cxj-template-hint-snippet',
+                from: { line: cur.line, ch: cur.ch - length },
+                to: cur,
+                hint: applySnippet(snippet),
+            });
+        }
+    }
+    return hints;
+}
+
+/**
+ * The hint helper of the cxj-template mode, for the show-hint addon.
+ * It suggests the flag keywords in the `#[ ]` headers, the variables of `options.schema` in the `#{ }` regions,
+ * and in the text, the hints of the inner mode with the snippets of the flags.
+ */
+export function templateHint(cm: Editor, options: ITemplateHintOptions = {}): ITemplateHints | undefined {
+    const cur = cm.getCursor();
+    const line = cm.getLine(cur.line);
+    const token = cm.getTokenAt(cur);
+    const state: ITemplateState = token.state;
+    const patterns = getPatternsAfterToken(state);
+    const pattern = patterns[patterns.length - 1];
+    const { flags = [], delimiters } = resolveOptions(getEditorOptions(cm));
+    switch (pattern.name) {
+        case 'template-header':
+            return hintFlags(flags, line, cur);
+        case 'code':
+            return hintVariables(options.schema || {}, line, cur);
+        case 'single-quote':
+        case 'double-quote':
+        case 'quote':
+        case 'comment':
+            return undefined;
+    }
+    const { mode } = CodeMirror.innerMode(cm.getMode(), state);
+    const helpers = CodeMirror.hint || {};
+    const innerHint = mode.name && mode.name !== 'cxj-template' ? helpers[mode.name] : null;
+    const inner: ITemplateHints | undefined = innerHint && !innerHint.async ? innerHint(cm, options) : undefined;
+    const snippets = hintSnippets([...flags.map(flag => createFlagSnippet(flag, delimiters)), ...options.snippets || []], line, cur);
+    if (!inner && !snippets.length) {
+        return undefined;
+    }
+    return {
+        list: [...inner ? inner.list : [], ...snippets],
+        from: inner ? inner.from : snippets[0].from!,
+        to: inner ? inner.to : cur,
+    };
+}
+
+registerTemplateHelper('hint', templateHint);
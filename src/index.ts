@@ -1,44 +1,251 @@
-import CodeMirror, { EditorConfiguration, Mode, StringStream } from 'codemirror';
-import cloneDeep from 'clonedeep';
+import CodeMirror, { Editor, EditorConfiguration, Mode, StringStream } from 'codemirror';
 
 declare module 'codemirror' {
     function copyState<T = any>(mode: any, state: T): T;
+    function registerGlobalHelper(type: string, name: string, predicate: (mode: CodeMirror.Mode<any>, cm: CodeMirror.Editor) => boolean, value: any): void;
+    /**
+     * The old value of the option handler when the option is initialized.
+     */
+    var Init: object;
+    interface Mode<T> {
+        electricInput?: RegExp;
+        closeBrackets?: string;
+    }
+    interface CommandActions {
+        [name: string]: (cm: CodeMirror.Editor) => void;
+    }
 }
 
+/**
+ * Decide the mode of the pattern when it opens, such as by the prefix of `#{js: }`. null for no mode.
+ */
+export type ModeResolver = (matched: string | null, state: ITemplateState) => any;
+
 export type PatternLike = RegExp | string | ((text: string, from: number, state: ITemplateState) => [number, string | null]);
 
 export interface IPattern {
+    /**
+     * The mode name or spec, the name of `ITemplateOptions.modes`, or a `ModeResolver`.
+     */
     mode: any;
     open?: PatternLike;
     close?: PatternLike;
+    /**
+     * The escape of the delimiters inside the pattern, such as `\` of `\'`. Default is `\` with the `backslash` strategy.
+     */
     escape?: PatternLike;
+    /**
+     * How the delimiters inside the pattern are escaped, see `EscapeStrategy`. Default is `backslash` with `escape` given, otherwise `none`.
+     */
+    escapeStrategy?: EscapeStrategy;
+    /**
+     * The style added to the tokens of the escape sequences inside the pattern, such as `\'` and `''`.
+     */
+    escapeStyle?: string;
     children?: IPattern[];
     includePattern?: boolean;
     patternStyles?: [string | null, string | null];
+    /**
+     * Used to recognize the pattern, and styles its tokens as `cxj-pattern-<name>`, so keep it css friendly.
+     */
+    name?: string;
+    /**
+     * The style added to every token between the delimiters, the nested patterns included.
+     */
+    contentStyle?: string;
+    /**
+     * Indent the lines between the delimiters one unit past the line of the opener.
+     */
+    indent?: boolean;
+    /**
+     * Open the pattern only when the condition holds, see `IOpenCondition`.
+     */
+    openWhen?: IOpenCondition;
+    /**
+     * Standing between two siblings, the pattern does not break the `openWhen.after` condition of the latter one, such as a comment.
+     */
+    transparent?: boolean;
+    /**
+     * Close the pattern when its close delimiter goes missing, see `IRecoverPolicy`.
+     */
+    recover?: IRecoverPolicy;
+}
+
+/**
+ * When an unclosed pattern is closed without its close delimiter.
+ */
+export interface IRecoverPolicy {
+    /**
+     * The most lines the pattern may span, it is closed at the start of the line past them.
+     */
+    maxLines?: number;
+    /**
+     * Close the pattern at a blank line.
+     */
+    blankLine?: boolean;
+    /**
+     * Close the pattern where any of these matches before its close delimiter, such as `#[` for an unclosed `#{`.
+     */
+    resync?: PatternLike[];
+    /**
+     * Close the pattern where a close delimiter of an enclosing pattern matches before its own, such as `}` for the `(` of `#{ f( }`.
+     */
+    popOnUnmatchedClose?: boolean;
+}
+
+/**
+ * How the delimiters inside a pattern are escaped: by an odd run of `escape`, by the close delimiter written twice, or not at all.
+ */
+export type EscapeStrategy = 'backslash' | 'double' | 'none';
+
+/**
+ * An escape sequence, such as `\#{` or `''`, which stands for the escaped text.
+ */
+export interface IEscapeSequence {
+    pos: number;
+    escape: string;
+    escaped: string;
+    /**
+     * The pattern whose content the sequence is in.
+     */
+    pattern: IPattern;
+}
+
+/**
+ * When an opener is allowed. Every given condition should hold.
+ */
+export interface IOpenCondition {
+    /**
+     * The names of the sibling patterns, one of which should be closed right before the opener, such as the flag header before a block.
+     */
+    after?: string[];
+    /**
+     * Whether the whitespaces may separate the opener from the sibling closed. Default is true.
+     */
+    whitespace?: boolean;
+    /**
+     * Whether the line breaks may separate the opener from the sibling closed, when the whitespaces may. Default is true.
+     */
+    newline?: boolean;
+    /**
+     * The names of the patterns the opener may appear directly under, the root is named `cxj-template`.
+     */
+    parents?: string[];
 }
 
 export type Callback = (state: ITemplateState, info: { line: string, pos: number, textBefore: string, matched: string | null, pattern: IPattern | null }) => void;
 
+export type BlockKind = 'code' | 'template';
+
+/**
+ * Declare a flag keyword, such as `if` of `#[if]`, and the `[...]` blocks following the header.
+ */
+export interface IFlagDefinition {
+    keyword: string;
+    /**
+     * The kinds of the blocks following the header. A code block holds one `#{ }` expression, a template block holds the text.
+     */
+    blocks: BlockKind[];
+    /**
+     * The blocks which may repeat any times after `blocks`, such as the `[cond][body]` pairs of `#[if]`.
+     */
+    repeat?: BlockKind[];
+    /**
+     * An optional last block, such as the else body of `#[if]`.
+     */
+    optional?: BlockKind;
+    /**
+     * Whether the blocks are the `[cond][body]` branches of a conditional chain, which the parser reads and `render` renders as `#[if]`.
+     */
+    conditional?: boolean;
+}
+
 export interface ITemplateOptions extends IPattern {
     name: 'cxj-template';
     codeMode: any;
+    /**
+     * The flag keywords besides the default ones. A definition with the same keyword replaces the default one.
+     */
+    flags?: IFlagDefinition[];
+    /**
+     * The delimiters replacing the default ones, such as `DOLLAR_DELIMITERS`.
+     */
+    delimiters?: Partial<IDelimiterProfile>;
     beforeEnter?: Callback;
     afterEnter?: Callback;
     beforeExit?: Callback;
     afterExit?: Callback;
+    /**
+     * Copy the customs when the state is copied, shallowly by default.
+     */
+    copyCustoms?: (customs: ITemplateCustoms) => ITemplateCustoms;
+    /**
+     * The modes named by the patterns, the `#{name: }` prefixes and the `#[lang=name]` headers.
+     */
+    modes?: {
+        [name: string]: any;
+    };
 }
 
+/**
+ * Immutable, so the copied states share the nodes instead of copying them.
+ */
 export interface IPatternContext {
-    pre: IPatternContext | null;
-    pattern: IPattern;
+    readonly pre: IPatternContext | null;
+    readonly pattern: IPattern;
+    /**
+     * The leading whitespaces of the line where the pattern opens.
+     */
+    readonly indentation: string;
+    /**
+     * The `ITemplateState.lines` when the pattern opens.
+     */
+    readonly line: number;
+    /**
+     * The mode resolved when the pattern opens, null without any.
+     */
+    readonly mode: any;
 }
 
+/**
+ * Only the innermost node is copied with the state, the outer ones are shared.
+ */
 export interface IStateContext {
-    pre: IStateContext | null;
-    mode: Mode<any>;
+    readonly pre: IStateContext | null;
+    readonly mode: Mode<any>;
     state: any;
 }
 
+/**
+ * A chain of blocks following a flag header, such as `#[if][cond][body]`. Replaced rather than mutated.
+ */
+export interface IFlagChain {
+    readonly flag: IFlagDefinition | null;
+    /**
+     * The argument of the header, such as `pg` of `#[lang=pg]`, null without any.
+     */
+    readonly argument: string | null;
+    /**
+     * How many blocks have been opened.
+     */
+    readonly blocks: number;
+}
+
+/**
+ * The data of the callbacks, copied by `copyCustoms`.
+ */
+export interface ITemplateCustoms {
+    /**
+     * @deprecated call `isJustExitTemplate(state)`, kept for the callbacks reading it.
+     */
+    justExitTemplate?: boolean;
+    /**
+     * The flag chain of every pattern depth.
+     */
+    chains?: IFlagChain[];
+    [key: string]: any;
+}
+
 export interface ITemplateState {
     textBefore: string;
     patternContext: IPatternContext;
@@ -46,40 +253,72 @@ export interface ITemplateState {
     useRoot: boolean;
     start: boolean;
     layers?: ILayer[];
-    regExpCache: {
-        [source: string]: RegExp;
-    };
-    customs: {
-        [key: string]: any;
-    };
+    /**
+     * The escape sequences of the line to style, which are not read yet.
+     */
+    escapes?: IEscapeSequence[];
+    tokenPatternContext?: IPatternContext;
+    /**
+     * Whether the last token read is a delimiter of the pattern of `tokenPatternContext`.
+     */
+    tokenDelimiter?: boolean;
+    customs: ITemplateCustoms;
+    /**
+     * The sibling closed last, and the text after it, the transparent patterns excluded. null once another pattern opens.
+     */
+    lastClosed: IClosedSibling | null;
+    /**
+     * The number of the lines started, which tells the line span of the patterns.
+     */
+    lines: number;
 }
 
-function pushPatternContext(state: ITemplateState, pattern: IPattern) {
+/**
+ * Replaced rather than mutated.
+ */
+export interface IClosedSibling {
+    readonly pattern: IPattern;
+    readonly gap: string;
+}
+
+const REG_INDENTATION = /^\s*/;
+
+function pushPatternContext(state: ITemplateState, pattern: IPattern, line: string, mode: any) {
     state.patternContext = {
         pre: state.patternContext,
         pattern,
+        indentation: REG_INDENTATION.exec(line)![0],
+        line: state.lines,
+        mode,
     };
 }
 
+function getNamedMode(modes: ITemplateOptions['modes'], mode: any): any {
+    return typeof mode === 'string' && modes && modes.hasOwnProperty(mode) ? modes[mode] : mode || null;
+}
+
+/**
+ * Resolve the mode of the pattern opening, the names of `modes` included.
+ */
+function resolveMode(modes: ITemplateOptions['modes'], mode: any, matched: string | null, state: ITemplateState): any {
+    return getNamedMode(modes, typeof mode === 'function' ? mode(matched, state) : mode);
+}
+
 function popPatternContext(state: ITemplateState) {
     state.patternContext = state.patternContext.pre!;
 }
 
-function pushStateContext(config: EditorConfiguration, state: ITemplateState, mode: any, stream?: StringStream) {
-    const modeObj = CodeMirror.getMode(config, mode);
-    const context: IStateContext = {
-        pre: null,
+function pushStateContext(config: EditorConfiguration, state: ITemplateState, context: IPatternContext) {
+    const modeObj = CodeMirror.getMode(config, context.mode);
+    state.stateContext = {
+        pre: state.stateContext,
         mode: modeObj,
-        state: CodeMirror.startState(modeObj, stream && stream.indentation()),
+        state: CodeMirror.startState(modeObj, getContentColumn(config, context)),
     };
-    if (state.stateContext) {
-        context.pre = state.stateContext;
-    }
-    state.stateContext = context;
 }
 
 function popStateContext(state: ITemplateState) {
-    state.stateContext = state.stateContext!.pre;
+    state.stateContext = copyStateContext(state.stateContext!.pre);
 }
 
 function getLocalMode(state: ITemplateState): Mode<any> | null {
@@ -119,7 +358,123 @@ function makeSureAnchor(source: string, start: boolean, exist: boolean) {
     return source;
 }
 
-function getCachedRegExp(state: ITemplateState, regExp: RegExp, anchor: AnchorMode, global: boolean) {
+interface ICandidate {
+    pattern: PatternLike;
+    /**
+     * The child opened by the candidate, null if the candidate is the close pattern.
+     */
+    child: IPattern | null;
+}
+
+/**
+ * The close pattern and the open patterns of the children, combined to one alternation where possible.
+ */
+interface ICompiledPattern {
+    pattern: IPattern;
+    /**
+     * In the order of the priority. When several candidates match the same position, the former one wins.
+     */
+    candidates: ICandidate[];
+    combined: RegExp | null;
+    /**
+     * The indexes of the candidates combined, and the capture group of each of them in the alternation.
+     */
+    combinedIndexes: number[];
+    combinedGroups: number[];
+    /**
+     * The indexes of the other candidates, such as the functions, which are matched one by one.
+     */
+    separatedIndexes: number[];
+}
+
+/**
+ * Created once for a mode instance and shared by all its states.
+ */
+interface IPatternMatcher {
+    regExpCache: {
+        [source: string]: RegExp;
+    };
+    compiledPatterns: ICompiledPattern[];
+}
+
+interface IMatchResult {
+    pos: number;
+    matched: string | null;
+    child: IPattern | null;
+}
+
+function createPatternMatcher(): IPatternMatcher {
+    return {
+        regExpCache: {},
+        compiledPatterns: [],
+    };
+}
+
+const REG_BACK_REFERENCE = /\\[1-9]/;
+const REG_COMBINABLE_FLAGS = /^[gy]*$/;
+
+function countGroups(source: string) {
+    return new RegExp(`${source}|`).exec('')!.length - 1;
+}
+
+function toCombinedSource(pattern: PatternLike): string | null {
+    if (typeof pattern === 'string') {
+        return escapeRegExp(pattern);
+    }
+    if (typeof pattern === 'function' || !REG_COMBINABLE_FLAGS.test(pattern.flags) || REG_BACK_REFERENCE.test(pattern.source)) {
+        return null;
+    }
+    return makeSureAnchor(makeSureAnchor(pattern.source, true, false), false, false);
+}
+
+function compilePattern(pattern: IPattern): ICompiledPattern {
+    const { close, children = [] } = pattern;
+    const candidates: ICandidate[] = close ? [{ pattern: close, child: null }] : [];
+    for (const child of children) {
+        if (child.open) {
+            candidates.push({ pattern: child.open, child });
+        }
+    }
+    const sources: string[] = [];
+    const combinedIndexes: number[] = [];
+    const combinedGroups: number[] = [];
+    const separatedIndexes: number[] = [];
+    let group = 1;
+    candidates.forEach((candidate, index) => {
+        // The conditional openers are matched one by one, so a failed one never hides another candidate at the same position.
+        const source = candidate.child && candidate.child.openWhen ? null : toCombinedSource(candidate.pattern);
+        if (source === null) {
+            separatedIndexes.push(index);
+            return;
+        }
+        sources.push(`(${source})`);
+        combinedIndexes.push(index);
+        combinedGroups.push(group);
+        group += 1 + countGroups(source);
+    });
+    return {
+        pattern,
+        candidates,
+        combined: sources.length ? new RegExp(sources.join('|'), 'g') : null,
+        combinedIndexes,
+        combinedGroups,
+        separatedIndexes,
+    };
+}
+
+function getCompiledPattern(matcher: IPatternMatcher, pattern: IPattern) {
+    const { compiledPatterns } = matcher;
+    for (const compiled of compiledPatterns) {
+        if (compiled.pattern === pattern) {
+            return compiled;
+        }
+    }
+    const compiled = compilePattern(pattern);
+    compiledPatterns.push(compiled);
+    return compiled;
+}
+
+function getCachedRegExp(matcher: IPatternMatcher, regExp: RegExp, anchor: AnchorMode, global: boolean) {
     let { source, flags } = regExp;
     switch (anchor) {
         case AnchorMode.ALL:
@@ -144,10 +499,10 @@ function getCachedRegExp(state: ITemplateState, regExp: RegExp, anchor: AnchorMo
         flags = flags.replace(/g/g, '');
     }
     const key = `${source}tVes#aE$${flags}`;
-    let cached = state.regExpCache[key];
+    let cached = matcher.regExpCache[key];
     if (!cached) {
         cached = new RegExp(source, flags);
-        state.regExpCache[key] = cached;
+        matcher.regExpCache[key] = cached;
     }
     return cached;
 }
@@ -160,7 +515,7 @@ enum MatchMode {
 const REG_SPACE = /^\s*$/;
 const REG_WORD = /\w/;
 
-function match(line: string, position: number, mode: MatchMode, pattern: PatternLike, state: ITemplateState): [number, string | null] {
+function match(line: string, position: number, mode: MatchMode, pattern: PatternLike, state: ITemplateState, matcher: IPatternMatcher): [number, string | null] {
     if (typeof pattern === 'string') {
         if (mode === MatchMode.DEFAULT) {
             const index = line.indexOf(pattern, position);
@@ -173,110 +528,333 @@ function match(line: string, position: number, mode: MatchMode, pattern: Pattern
         return pattern(line, position, state);
     }
     if (mode === MatchMode.DEFAULT) {
-        const reg = getCachedRegExp(state, pattern, AnchorMode.NONE, true);
+        const reg = getCachedRegExp(matcher, pattern, AnchorMode.NONE, true);
         reg.lastIndex = position;
         const result = reg.exec(line);
         return result ? [result.index, result[0]] : [-1, null];
     } else {
-        const reg = getCachedRegExp(state, pattern, AnchorMode.END, false);
+        const reg = getCachedRegExp(matcher, pattern, AnchorMode.END, false);
         reg.lastIndex = 0;
         const result = reg.exec(line.substring(0, position));
         return result ? [result.index, result[0]] : [-1, null];
     }
 }
 
-function matchWithEscape(line: string, position: number, pattern: PatternLike, escape: PatternLike | undefined, state: ITemplateState): [number, string | null] {
-    let [pos, matched] = match(line, position, MatchMode.DEFAULT, pattern, state);
-    let escaped: boolean = false;
-    while (pos !== -1) {
-        escaped = checkEscape(state, line, pos, escape);
-        if (!escaped) {
+function getEscapeStrategy({ escape, escapeStrategy }: IPattern): EscapeStrategy {
+    return escapeStrategy || (escape ? 'backslash' : 'none');
+}
+
+/**
+ * Count the run of the escapes right before the position, the run never reaches before `from`.
+ */
+function countEscapes(state: ITemplateState, matcher: IPatternMatcher, line: string, from: number, position: number, escape: PatternLike) {
+    let count = 0;
+    while (position > from) {
+        const [pos, matched] = match(line, position, MatchMode.PREFIX, escape, state, matcher);
+        if (pos < from || pos >= position || !matched) {
             break;
         }
-        const next = pos + (matched ? matched.length : 0);
-        [pos, matched] = match(line, next, MatchMode.DEFAULT, pattern, state);
+        ++ count;
+        position = pos;
+    }
+    return count;
+}
+
+/**
+ * @return the position to go on matching from if the delimiter is escaped, otherwise -1
+ */
+function skipEscaped(state: ITemplateState, matcher: IPatternMatcher, pattern: IPattern, close: boolean, line: string, from: number, pos: number, matched: string): number {
+    switch (getEscapeStrategy(pattern)) {
+        case 'backslash':
+            return countEscapes(state, matcher, line, from, pos, pattern.escape || '\\') % 2 === 1 ? pos + Math.max(matched.length, 1) : -1;
+        case 'double': {
+            const end = pos + matched.length;
+            const doubled = close && matched ? matchDoubled(pattern, line, end, state, matcher) : null;
+            return doubled ? end + doubled.length : -1;
+        }
+        default:
+            return -1;
     }
-    pos = escaped ? -1 : pos;
-    return [pos, pos !== -1 ? matched : null];
 }
 
-function checkEscape(state: ITemplateState, line: string, offset: number, escape?: PatternLike): boolean {
-    if (!escape) return false;
-    const [pos] = match(line, offset, MatchMode.PREFIX, escape, state);
-    return pos >= 0;
+/**
+ * Get the close delimiter right at the position, which doubles the one before it.
+ */
+function matchDoubled(pattern: IPattern, line: string, position: number, state: ITemplateState, matcher: IPatternMatcher): string | null {
+    const [pos, matched] = match(line, position, MatchMode.DEFAULT, pattern.close!, state, matcher);
+    return pos === position && matched ? matched : null;
 }
 
-interface ILayer {
+function matchWithEscape(line: string, offset: number, candidate: ICandidate, pattern: IPattern, state: ITemplateState, matcher: IPatternMatcher): [number, string | null] {
+    let position = offset;
+    while (position <= line.length) {
+        const [pos, matched] = match(line, position, MatchMode.DEFAULT, candidate.pattern, state, matcher);
+        if (pos === -1) {
+            break;
+        }
+        const next = skipEscaped(state, matcher, pattern, !candidate.child, line, offset, pos, matched || '');
+        if (next === -1) {
+            return [pos, matched];
+        }
+        position = next;
+    }
+    return [-1, null];
+}
+
+function matchCombined(compiled: ICompiledPattern, line: string, offset: number, state: ITemplateState, matcher: IPatternMatcher): [number, string | null, number] {
+    const { pattern, candidates, combined, combinedIndexes, combinedGroups } = compiled;
+    let from = offset;
+    while (combined && from <= line.length) {
+        combined.lastIndex = from;
+        const result = combined.exec(line);
+        if (!result) {
+            break;
+        }
+        let index = -1;
+        for (let i = 0; i < combinedGroups.length && index === -1; ++ i) {
+            if (result[combinedGroups[i]] !== undefined) {
+                index = combinedIndexes[i];
+            }
+        }
+        const next = skipEscaped(state, matcher, pattern, !candidates[index].child, line, offset, result.index, result[0]);
+        if (next === -1) {
+            return [result.index, result[0], index];
+        }
+        from = next;
+    }
+    return [-1, null, -1];
+}
+
+/**
+ * Get the delimiter or the escape which an escape escapes at the position, the longest one wins.
+ */
+function matchEscaped(compiled: ICompiledPattern, line: string, position: number, state: ITemplateState, matcher: IPatternMatcher): string | null {
+    const { pattern: { escape = '\\' }, candidates } = compiled;
+    let escaped: string | null = null;
+    for (const candidate of [...candidates.map(({ pattern }) => pattern), escape]) {
+        const [pos, matched] = match(line, position, MatchMode.DEFAULT, candidate, state, matcher);
+        if (pos === position && matched && (!escaped || matched.length > escaped.length)) {
+            escaped = matched;
+        }
+    }
+    return escaped;
+}
+
+/**
+ * Find the escape sequences inside the pattern between the positions, the same way the delimiters are skipped.
+ */
+function findEscapes(matcher: IPatternMatcher, pattern: IPattern, line: string, from: number, to: number, state: ITemplateState): IEscapeSequence[] {
+    const strategy = getEscapeStrategy(pattern);
+    const escape = strategy === 'backslash' ? pattern.escape || '\\' : pattern.close;
+    const escapes: IEscapeSequence[] = [];
+    let position = from;
+    while (escape && strategy !== 'none' && position < to) {
+        const [pos, matched] = match(line, position, MatchMode.DEFAULT, escape, state, matcher);
+        if (pos === -1 || pos >= to || !matched) {
+            break;
+        }
+        const end = pos + matched.length;
+        const escaped = strategy === 'backslash' ? matchEscaped(getCompiledPattern(matcher, pattern), line, end, state, matcher) : matchDoubled(pattern, line, end, state, matcher);
+        if (escaped && end + escaped.length <= to) {
+            escapes.push({ pos, escape: matched, escaped, pattern });
+            position = end + escaped.length;
+        } else {
+            position = end;
+        }
+    }
+    return escapes;
+}
+
+const REG_LINE_BREAK = /[\r\n]/;
+
+/**
+ * Check the conditions which do not depend on the position of the opener.
+ */
+function isOpenAllowed({ after, parents }: IOpenCondition, parent: IPattern, state: ITemplateState) {
+    const { lastClosed } = state;
+    if (parents && parents.indexOf(parent.name!) === -1) {
+        return false;
+    }
+    return !after || (!!lastClosed && after.indexOf(lastClosed.pattern.name!) !== -1);
+}
+
+/**
+ * Whether a template block or a flag header is closed right before, with only whitespaces and transparent patterns after it.
+ */
+export function isJustExitTemplate({ lastClosed, textBefore }: ITemplateState): boolean {
+    if (!lastClosed || (lastClosed.pattern.name !== 'template' && lastClosed.pattern.name !== 'template-header')) {
+        return false;
+    }
+    return REG_SPACE.test(lastClosed.gap + textBefore);
+}
+
+/**
+ * Check the text between the sibling closed and the opener.
+ */
+function isGapAllowed({ after, whitespace = true, newline = true }: IOpenCondition, gap: string) {
+    if (!after || !gap) {
+        return true;
+    }
+    return whitespace && REG_SPACE.test(gap) && (newline || !REG_LINE_BREAK.test(gap));
+}
+
+/**
+ * Find the nearest close pattern of the current pattern or open pattern of its children, which is not escaped and whose `openWhen` holds.
+ */
+function matchNext(matcher: IPatternMatcher, pattern: IPattern, line: string, offset: number, state: ITemplateState): IMatchResult | null {
+    const compiled = getCompiledPattern(matcher, pattern);
+    const { candidates, separatedIndexes } = compiled;
+    let [pos, matched, index] = matchCombined(compiled, line, offset, state, matcher);
+    for (const separatedIndex of separatedIndexes) {
+        const { child } = candidates[separatedIndex];
+        const condition = child && child.openWhen;
+        if (condition && !isOpenAllowed(condition, pattern, state)) {
+            continue;
+        }
+        const [tmpPos, tmpMatched] = matchWithEscape(line, offset, candidates[separatedIndex], pattern, state, matcher);
+        if (condition && tmpPos >= 0 && !isGapAllowed(condition, (state.lastClosed ? state.lastClosed.gap : '') + state.textBefore + line.slice(offset, tmpPos))) {
+            continue;
+        }
+        if (tmpPos >= 0 && (pos === -1 || tmpPos < pos || (tmpPos === pos && separatedIndex < index))) {
+            pos = tmpPos;
+            matched = tmpMatched;
+            index = separatedIndex;
+        }
+    }
+    return pos >= 0 ? { pos, matched, child: candidates[index].child } : null;
+}
+
+export interface ILayer {
     pos: number;
     matched: string | null;
     open: boolean;
     prePattern: IPattern;
     nextPattern: IPattern;
+    preContext: IPatternContext;
+    nextContext: IPatternContext;
+    /**
+     * The pattern is closed by its recovery policy rather than its close delimiter, so the layer takes no text.
+     */
+    recovered?: boolean;
 }
 
-enum FoundMode {
-    PUSH,
-    POP,
-    NONE,
+/**
+ * @return where the recovery policy closes the current pattern before the position, -1 if it does not
+ */
+function matchRecovery(matcher: IPatternMatcher, state: ITemplateState, line: string, offset: number, until: number): number {
+    const { pattern: { recover }, pre } = state.patternContext;
+    if (!pre || !recover) {
+        return -1;
+    }
+    const candidates = [...recover.resync || []];
+    for (let context: IPatternContext | null = pre; context && recover.popOnUnmatchedClose; context = context.pre) {
+        if (context.pattern.close) {
+            candidates.push(context.pattern.close);
+        }
+    }
+    let recovered = -1;
+    for (const candidate of candidates) {
+        const [pos] = match(line, offset, MatchMode.DEFAULT, candidate, state, matcher);
+        if (pos >= 0 && pos < Math.min(until, line.length) && (recovered === -1 || pos < recovered)) {
+            recovered = pos;
+        }
+    }
+    return recovered;
+}
+
+/**
+ * Close the current pattern at the position without any close delimiter.
+ */
+function recoverPattern(parserConfig: ITemplateOptions, state: ITemplateState, line: string, pos: number): ILayer {
+    const { beforeExit, afterExit } = parserConfig;
+    const preContext = state.patternContext;
+    const pattern = preContext.pattern;
+    beforeExit && beforeExit(state, { line, pos, textBefore: state.textBefore, matched: null, pattern });
+    popPatternContext(state);
+    afterExit && afterExit(state, { line, pos, textBefore: state.textBefore, matched: null, pattern });
+    state.lastClosed = null;
+    state.textBefore = '';
+    return {
+        pos,
+        matched: null,
+        open: false,
+        prePattern: pattern,
+        nextPattern: getCurrentPattern(state),
+        preContext,
+        nextContext: state.patternContext,
+        recovered: true,
+    };
+}
+
+/**
+ * Start a line, and close the patterns whose `maxLines` or `blankLine` recovery applies to the line.
+ */
+function startLine(parserConfig: ITemplateOptions, state: ITemplateState, line: string): ILayer[] {
+    const layers: ILayer[] = [];
+    ++ state.lines;
+    for (let context = state.patternContext; context.pre && context.pattern.recover; context = state.patternContext) {
+        const { maxLines, blankLine } = context.pattern.recover;
+        if (!(maxLines && state.lines - context.line >= maxLines) && !(blankLine && REG_SPACE.test(line))) {
+            break;
+        }
+        layers.push(recoverPattern(parserConfig, state, line, 0));
+    }
+    return layers;
 }
 
-function createLayers(parserConfig: ITemplateOptions, state: ITemplateState, line: string, offset: number): ILayer[] {
+/**
+ * Find the delimiters of the line from the offset, the recovered ones and, with `escapes`, the escape sequences.
+ */
+function createLayers(parserConfig: ITemplateOptions, matcher: IPatternMatcher, state: ITemplateState, line: string, offset: number, escapes?: IEscapeSequence[]): ILayer[] {
     const { beforeEnter, afterEnter, beforeExit, afterExit } = parserConfig;
     const layers: ILayer[] = [];
-    let matched: string | null = null;
     while (offset < line.length) {
-        let found = FoundMode.NONE;
-        let pos: number = -1;
-        let tmpPos: number;
-        let tmpMatched: string | null = null;
         let pattern: IPattern;
         let prePattern: IPattern;
         let nextPattern: IPattern;
         prePattern = nextPattern = getCurrentPattern(state);
-        const { close, children, escape } = prePattern;
-        if (close) {
-            [tmpPos, tmpMatched] = matchWithEscape(line, offset, close, escape, state);
-            if (tmpPos >= 0) {
-                found = FoundMode.POP;
-                pos = tmpPos;
-                matched = tmpMatched;
-            }
+        const found = matchNext(matcher, prePattern, line, offset, state);
+        const recovered = matchRecovery(matcher, state, line, offset, found ? found.pos : line.length);
+        if (escapes) {
+            escapes.push(...findEscapes(matcher, prePattern, line, offset, recovered >= 0 ? recovered : found ? found.pos : line.length, state));
         }
-        if (children) {
-            for (const child of children) {
-                const { open } = child;
-                if (open) {
-                    [tmpPos, tmpMatched] = matchWithEscape(line, offset, open, escape, state);
-                    if (tmpPos >= 0 && (pos === -1 || tmpPos < pos)) {
-                        found = FoundMode.PUSH;
-                        pos = tmpPos;
-                        matched = tmpMatched;
-                        nextPattern = child;
-                    }
-                }
-            }
-        }
-        if (found !== FoundMode.NONE) {
+        if (recovered >= 0) {
+            state.textBefore += line.slice(offset, recovered);
+            layers.push(recoverPattern(parserConfig, state, line, recovered));
+            offset = recovered;
+        } else if (found) {
+            const { pos, matched, child } = found;
+            const preContext = state.patternContext;
             state.textBefore += line.slice(offset, pos);
-            if (found === FoundMode.PUSH) {
-                pattern = nextPattern;
+            if (child) {
+                pattern = nextPattern = child;
                 beforeEnter && beforeEnter(state, { line, pos, textBefore: state.textBefore, matched, pattern });
-                pushPatternContext(state, pattern!);
+                pushPatternContext(state, pattern!, line, resolveMode(parserConfig.modes, pattern.mode, matched, state));
                 afterEnter && afterEnter(state,{ line, pos, textBefore: state.textBefore, matched, pattern });
+                if (child.transparent) {
+                    state.lastClosed = state.lastClosed && { ...state.lastClosed, gap: state.lastClosed.gap + state.textBefore };
+                } else if (!prePattern.transparent) {
+                    state.lastClosed = null;
+                }
             } else {
                 pattern = prePattern;
                 beforeExit && beforeExit(state, { line, pos, textBefore: state.textBefore, matched, pattern });
                 popPatternContext(state);
                 afterExit && afterExit(state, { line, pos, textBefore: state.textBefore, matched, pattern });
                 nextPattern = getCurrentPattern(state);
+                if (!prePattern.transparent) {
+                    state.lastClosed = { pattern: prePattern, gap: '' };
+                }
             }
             state.textBefore = '';
             layers.push({
                 pos,
                 matched,
-                open: found === FoundMode.PUSH,
+                open: !!child,
                 prePattern,
                 nextPattern,
+                preContext,
+                nextContext: state.patternContext,
             });
             offset = pos + (matched ? matched.length : 0);
         } else {
@@ -287,10 +865,10 @@ function createLayers(parserConfig: ITemplateOptions, state: ITemplateState, lin
     return layers;
 }
 
-function syncState(config: EditorConfiguration, state: ITemplateState, stream: StringStream, layer: ILayer) {
-    if (layer.open && layer.nextPattern.mode) {
-        pushStateContext(config, state, layer.nextPattern.mode, stream);
-    } else if (!layer.open && layer.prePattern.mode) {
+function syncState(config: EditorConfiguration, state: ITemplateState, layer: ILayer) {
+    if (layer.open && layer.nextContext.mode) {
+        pushStateContext(config, state, layer.nextContext);
+    } else if (!layer.open && layer.preContext.mode) {
         popStateContext(state);
     }
 }
@@ -309,7 +887,7 @@ function tokenPattern(config: EditorConfiguration, stream: StringStream, state:
     }
     state.useRoot = true;
     stream.pos = pos + (matched ? matched.length : 0);
-    syncState(config, state, stream, layer);
+    syncState(config, state, layer);
     layers!.shift();
     if (stream.eol()) {
         state.textBefore += '\n';
@@ -335,7 +913,7 @@ function tokenUntil(config: EditorConfiguration, stream: StringStream, state: IT
         const layer = layers[0];
         if (stream.pos === until) {
             if (syncStateWhenReach) {
-                syncState(config, state, stream, layer);
+                syncState(config, state, layer);
             }
             if (shift) {
                 layers.shift();
@@ -348,28 +926,78 @@ function tokenUntil(config: EditorConfiguration, stream: StringStream, state: IT
     return style;
 }
 
-function token(config: EditorConfiguration, parserConfig: ITemplateOptions, stream: StringStream, state: ITemplateState) {
+/**
+ * Get the next escape sequence to style before `until`, the ones passed are dropped.
+ */
+function getNextEscape(state: ITemplateState, position: number, until: number): IEscapeSequence | null {
+    const { escapes } = state;
+    while (escapes && escapes[0] && escapes[0].pos + escapes[0].escape.length + escapes[0].escaped.length <= position) {
+        escapes.shift();
+    }
+    const escape = escapes && escapes[0];
+    return escape && escape.pos < until ? escape : null;
+}
+
+/**
+ * Read the text before the escape sequence, or the sequence itself with the escape style added.
+ */
+function tokenEscape(config: EditorConfiguration, stream: StringStream, state: ITemplateState, escape: IEscapeSequence) {
+    const { pos, escape: escapeText, escaped, pattern: { escapeStyle } } = escape;
+    if (stream.start < pos) {
+        return tokenUntil(config, stream, state, pos, false, false);
+    }
+    return addStyle(tokenUntil(config, stream, state, pos + escapeText.length + escaped.length, false, false), escapeStyle!);
+}
+
+function addStyle(style: string | null, added: string) {
+    return style ? `${style} ${added}` : added;
+}
+
+/**
+ * @param recovered the patterns closed at the line start, see `startLine`
+ */
+function token(config: EditorConfiguration, parserConfig: ITemplateOptions, matcher: IPatternMatcher, stream: StringStream, state: ITemplateState, recovered: ILayer[]) {
     if (!state.start || stream.sol()) {
         state.start = true;
         state.useRoot = false;
-        state.layers = createLayers(parserConfig, state, stream.string, stream.start);
+        state.tokenPatternContext = state.patternContext;
+        state.tokenDelimiter = false;
+        const escapes: IEscapeSequence[] = [];
+        state.layers = [...recovered, ...createLayers(parserConfig, matcher, state, stream.string, stream.start, escapes)];
+        state.escapes = escapes.filter(({ pattern }) => !!pattern.escapeStyle);
+    }
+    let error = false;
+    while (state.layers && state.layers[0] && state.layers[0].recovered && state.layers[0].pos <= stream.start) {
+        syncState(config, state, state.layers.shift()!);
+        error = true;
     }
+    const style = tokenLayer(config, stream, state);
+    return error ? addStyle(style, 'cxj-error') : style;
+}
+
+function tokenLayer(config: EditorConfiguration, stream: StringStream, state: ITemplateState) {
     const layer: ILayer | undefined = state.layers && state.layers[0];
+    const escape = getNextEscape(state, stream.start, layer ? layer.pos : stream.string.length);
     if (layer) {
         const { prePattern, nextPattern, pos, matched, open } = layer;
         const end = pos + (matched ? matched.length : 0);
         if (stream.start < pos) {
-            return tokenUntil(config, stream, state, pos, false, false);
-        } else if (stream.start === pos) {
+            state.tokenPatternContext = layer.preContext;
+            state.tokenDelimiter = false;
+            return escape ? tokenEscape(config, stream, state, escape) : tokenUntil(config, stream, state, pos, false, false);
+        }
+        state.tokenPatternContext = open ? layer.nextContext : layer.preContext;
+        state.tokenDelimiter = true;
+        if (stream.start === pos) {
             const pattern = open ? nextPattern : prePattern;
             const { patternStyles, includePattern } = pattern;
             if (patternStyles) {
                 return tokenPattern(config, stream, state);
             } else if (open && includePattern) {
-                nextPattern.mode && pushStateContext(config, state, nextPattern.mode, stream);
+                layer.nextContext.mode && pushStateContext(config, state, layer.nextContext);
                 return tokenUntil(config, stream, state, end, true, false);
             } else if (!open && !includePattern ) {
-                prePattern.mode && popStateContext(state);
+                layer.preContext.mode && popStateContext(state);
                 return tokenUntil(config, stream, state, end, true, false);
             } else {
                 return tokenUntil(config, stream, state, end, true, true);
@@ -382,7 +1010,11 @@ function token(config: EditorConfiguration, parserConfig: ITemplateOptions, stre
     } else {
         const localMode = getLocalMode(state);
         const localState = getLocalState(state);
-        if (localMode && localMode.token) {
+        state.tokenPatternContext = state.patternContext;
+        state.tokenDelimiter = false;
+        if (escape) {
+            return tokenEscape(config, stream, state, escape);
+        } else if (localMode && localMode.token) {
             return localMode.token(stream, localState);
         } else {
             stream.pos = stream.string.length;
@@ -391,36 +1023,207 @@ function token(config: EditorConfiguration, parserConfig: ITemplateOptions, stre
     }
 }
 
-function copyPatternContext(context: IPatternContext): IPatternContext;
-function copyPatternContext(context: IPatternContext | null): IPatternContext | null;
-function copyPatternContext(context: IPatternContext | null): IPatternContext | null {
-    if (!context) return null;
-    return {
-        pre: copyPatternContext(context.pre),
-        pattern: context.pattern,
+function getContextDepth(context: IPatternContext) {
+    let depth = 0;
+    for (let pre = context.pre; pre; pre = pre.pre) {
+        ++ depth;
     }
+    return depth;
+}
+
+/**
+ * Add the depth, the pattern name and the content styles of the regions to the style of the token.
+ */
+function addRegionStyles(style: string | null, state: ITemplateState, lineDepth: number) {
+    const context = state.tokenPatternContext || state.patternContext;
+    const styles: string[] = [];
+    const depth = getContextDepth(context);
+    if (lineDepth > 0) {
+        styles.push(`line-background-cxj-depth-${lineDepth}`);
+    }
+    if (depth > 0) {
+        styles.push(`cxj-depth-${depth}`);
+        for (let named: IPatternContext | null = context; named && named.pre; named = named.pre) {
+            if (named.pattern.name) {
+                styles.push(`cxj-pattern-${named.pattern.name}`);
+                break;
+            }
+        }
+    }
+    const contentStyles: string[] = [];
+    for (let content = state.tokenDelimiter ? context.pre : context; content; content = content.pre) {
+        if (content.pattern.contentStyle) {
+            contentStyles.unshift(content.pattern.contentStyle);
+        }
+    }
+    return [style, ...styles, ...contentStyles].filter(s => !!s).join(' ') || null;
+}
+
+function getColumn(config: EditorConfiguration, indentation: string) {
+    return CodeMirror.countColumn(indentation, null, config.tabSize || 4);
+}
+
+/**
+ * The column of the lines inside the pattern, which is also the base column the inner mode starts with.
+ */
+function getContentColumn(config: EditorConfiguration, context: IPatternContext) {
+    const column = getColumn(config, context.indentation);
+    return context.pattern.indent ? column + (config.indentUnit || 2) : column;
+}
+
+/**
+ * Indent by the template structure where the inner mode returns `Pass`.
+ */
+function indent(config: EditorConfiguration, matcher: IPatternMatcher, state: ITemplateState, textAfter: string, line?: string) {
+    const { patternContext } = state;
+    const { pattern } = patternContext;
+    if (pattern.indent && pattern.close) {
+        const found = matchNext(matcher, pattern, textAfter, 0, state);
+        if (found && found.pos === 0 && !found.child) {
+            return getColumn(config, patternContext.indentation);
+        }
+    }
+    const localMode = getLocalMode(state);
+    const inner = localMode && localMode.indent ? (localMode as any).indent(getLocalState(state), textAfter, line) : CodeMirror.Pass;
+    if (inner !== CodeMirror.Pass) {
+        return inner;
+    }
+    for (let context: IPatternContext | null = patternContext; context; context = context.pre) {
+        if (context.pattern.indent) {
+            return getContentColumn(config, context);
+        }
+    }
+    return CodeMirror.Pass;
 }
 
 function copyStateContext(context: IStateContext | null): IStateContext | null {
     if (!context) return null;
     return {
-        pre: copyStateContext(context.pre),
+        pre: context.pre,
         mode: context.mode,
         state: CodeMirror.copyState(context.mode, context.state),
     }
 }
 
-const FLAG_KEYWORDS = ['if'];
+function copyCustoms(customs: ITemplateCustoms): ITemplateCustoms {
+    return { ...customs };
+}
+
+export const DEFAULT_FLAGS: IFlagDefinition[] = [
+    {
+        keyword: 'if',
+        blocks: ['code', 'template'],
+        repeat: ['code', 'template'],
+        optional: 'template',
+        conditional: true,
+    },
+    {
+        keyword: 'lang',
+        blocks: ['template'],
+    },
+];
+
+/**
+ * The keywords of the default flags.
+ */
+export const FLAG_KEYWORDS = DEFAULT_FLAGS.map(flag => flag.keyword);
+
+function mergeFlags(flags: IFlagDefinition[] = []): IFlagDefinition[] {
+    const keywords = flags.map(flag => flag.keyword);
+    return [
+        ...DEFAULT_FLAGS.filter(flag => keywords.indexOf(flag.keyword) === -1),
+        ...flags,
+    ];
+}
+
+export function getFlagDefinition(flags: IFlagDefinition[] | undefined, keyword: string): IFlagDefinition | null {
+    if (!flags) return null;
+    for (const flag of flags) {
+        if (flag.keyword === keyword) {
+            return flag;
+        }
+    }
+    return null;
+}
+
+function getMaxBlocks(flag: IFlagDefinition) {
+    const { blocks, repeat, optional } = flag;
+    return repeat && repeat.length ? Infinity : blocks.length + (optional ? 1 : 0);
+}
+
+/**
+ * @return the kinds of the `count` blocks following the header, null if the flag does not accept so many.
+ */
+export function getBlockKinds(flag: IFlagDefinition, count: number): BlockKind[] | null {
+    const { blocks, repeat = [], optional } = flag;
+    if (count < blocks.length) {
+        return null;
+    }
+    const kinds = [...blocks];
+    while (repeat.length && kinds.length + repeat.length <= count) {
+        kinds.push(...repeat);
+    }
+    if (kinds.length < count && optional) {
+        kinds.push(optional);
+    }
+    return kinds.length === count ? kinds : null;
+}
+
+/**
+ * @return the kind of the block before the blocks following it are known, null if it depends on them.
+ */
+export function getBlockKindAt(flag: IFlagDefinition, index: number): BlockKind | null {
+    const { repeat = [] } = flag;
+    let kind: BlockKind | null = null;
+    // The kinds repeat after the cycle of `repeat`, so the counts up to one more cycle and the optional block tell all the cases.
+    for (let count = index + 1; count <= index + repeat.length + 2; ++ count) {
+        const kinds = getBlockKinds(flag, count);
+        if (!kinds) {
+            continue;
+        }
+        if (kind && kind !== kinds[index]) {
+            return null;
+        }
+        kind = kinds[index];
+    }
+    return kind;
+}
 
-CodeMirror.defineMode('cxj-template-flag', (): Mode<{}> => {
+interface IFlagModeOptions {
+    name: 'cxj-template-flag';
+    keywords?: string[];
+}
+
+const REG_HEADER_ARGUMENT = /^([^=]*)=([\s\S]*)$/;
+
+/**
+ * Split the content of a flag header to the keyword and the argument, such as `lang` and `pg` of `#[lang=pg]`.
+ */
+export function parseFlagHeader(content: string): { keyword: string, argument: string | null } {
+    const result = REG_HEADER_ARGUMENT.exec(content.trim());
+    return result ? { keyword: result[1].trim(), argument: result[2].trim() } : { keyword: content.trim(), argument: null };
+}
+
+CodeMirror.defineMode('cxj-template-flag', (_, { keywords = FLAG_KEYWORDS }: IFlagModeOptions): Mode<{ argument: boolean }> => {
     return {
-        token(stream) {
+        startState() {
+            return { argument: false };
+        },
+        token(stream, state) {
             if (stream.eatSpace()) {
                 return null;
             }
+            if (state.argument) {
+                stream.skipToEnd();
+                return 'string cxj-template-flag-argument';
+            }
+            if (stream.eat('=')) {
+                state.argument = true;
+                return 'operator';
+            }
             if (stream.eatWhile(REG_WORD)) {
                 const matched = stream.current();
-                const idx = FLAG_KEYWORDS.indexOf(matched);
+                const idx = keywords.indexOf(matched);
                 return idx >= 0 ? `keyword cxj-template-flag-keyword cxj-template-flag-keyword-${matched}` : null;
             }
             stream.next();
@@ -429,21 +1232,37 @@ CodeMirror.defineMode('cxj-template-flag', (): Mode<{}> => {
     }
 });
 
-CodeMirror.defineMode('cxj-template', (config, parserConfig: ITemplateOptions): Mode<ITemplateState> => {
+/**
+ * The content of the template comments.
+ */
+CodeMirror.defineMode('cxj-template-comment', (): Mode<{}> => {
+    return {
+        token(stream) {
+            stream.skipToEnd();
+            return 'comment cxj-comment';
+        },
+    };
+});
+
+/**
+ * Merge the mode options with the default options, the same way the mode does.
+ */
+export function resolveOptions(parserConfig: ITemplateOptions): ITemplateOptions {
     const {
         mode, codeMode,
         open, close,
+        flags, delimiters, modes,
         beforeEnter: customBeforeEnter,
         afterExit: customAfterExit,
         ...rest
     } = parserConfig;
-    const defaultOptions = createDefaultOptions(mode, codeMode);
+    const defaultOptions = createDefaultOptions(mode, codeMode, flags, delimiters, modes);
     const {
         beforeEnter: defaultBeforeEnter,
         afterExit: defaultAfterExit,
         ...restDefaultOptions
     } = defaultOptions;
-    const finalParserConfig: ITemplateOptions = {
+    return {
         ...restDefaultOptions,
         ...rest,
         beforeEnter(state: ITemplateState, info) {
@@ -455,113 +1274,465 @@ CodeMirror.defineMode('cxj-template', (config, parserConfig: ITemplateOptions):
             customAfterExit && customAfterExit(state, info);
         }
     };
-    const { mode: baseMode } = finalParserConfig;
+}
+
+function createState(parserConfig: ITemplateOptions, stateContext: IStateContext | null): ITemplateState {
+    return {
+        textBefore: '',
+        patternContext: {
+            pre: null,
+            pattern: parserConfig,
+            indentation: '',
+            line: 0,
+            mode: getNamedMode(parserConfig.modes, parserConfig.mode),
+        },
+        stateContext,
+        useRoot: false,
+        start: false,
+        customs: {},
+        lastClosed: null,
+        lines: 0,
+    };
+}
+
+const REG_ELECTRIC_INPUT = /^\s*[\]}]$/;
+const COMMENT_PROPERTIES = ['lineComment', 'blockCommentStart', 'blockCommentEnd', 'blockCommentLead'];
+
+/**
+ * The properties of the template itself: the closers re-indent the line, the template comment, and the brackets to close.
+ */
+function getTemplateProperties({ delimiters }: ITemplateOptions): Mode<any> {
+    const properties: Mode<any> = {
+        electricInput: REG_ELECTRIC_INPUT,
+        closeBrackets: '()[]{}\'\'""',
+    };
+    if (delimiters && delimiters.commentOpen) {
+        properties.blockCommentStart = delimiters.commentOpen;
+        properties.blockCommentEnd = delimiters.commentClose;
+    }
+    return properties;
+}
+
+function getElectricInput({ electricInput, electricChars }: Mode<any>): RegExp | null {
+    if (electricInput) {
+        return electricInput;
+    }
+    return electricChars ? new RegExp(`[${escapeRegExp(electricChars)}]$`) : null;
+}
+
+/**
+ * Add the electric input, the comments and the brackets of the template to the inner mode returned by `innerMode`.
+ */
+function createRegionMode(localMode: Mode<any>, properties: Mode<any>): Mode<any> {
+    const regionMode: Mode<any> = Object.create(localMode);
+    const electricInput = getElectricInput(localMode);
+    regionMode.electricInput = electricInput
+        ? new RegExp(`${REG_ELECTRIC_INPUT.source}|${electricInput.source}`, electricInput.ignoreCase ? 'i' : '')
+        : REG_ELECTRIC_INPUT;
+    if (!localMode.lineComment && !localMode.blockCommentStart) {
+        for (const name of COMMENT_PROPERTIES) {
+            if (properties[name] !== undefined) {
+                regionMode[name] = properties[name];
+            }
+        }
+    }
+    if (localMode.closeBrackets === undefined) {
+        regionMode.closeBrackets = properties.closeBrackets;
+    }
+    return regionMode;
+}
+
+CodeMirror.defineMode('cxj-template', (config, parserConfig: ITemplateOptions): Mode<ITemplateState> => {
+    const finalParserConfig = resolveOptions(parserConfig);
+    const baseMode = getNamedMode(finalParserConfig.modes, finalParserConfig.mode);
+    const matcher = createPatternMatcher();
     const baseModeObj = baseMode ? CodeMirror.getMode(config, baseMode) : null;
-    const initialStateContext: IStateContext | null = baseModeObj ? {
-        pre: null,
-        mode: baseModeObj,
-        state: CodeMirror.startState(baseModeObj),
-    } : null;
+    const { copyCustoms: copyStateCustoms = copyCustoms } = finalParserConfig;
+    const properties = getTemplateProperties(finalParserConfig);
+    // The inner mode of the consecutive calls of `innerMode` is mostly the same, so the last wrapper is kept.
+    let lastRegion: { localMode: Mode<any>, regionMode: Mode<any> } | null = null;
+    const getRegionMode = (localMode: Mode<any>) => {
+        if (!lastRegion || lastRegion.localMode !== localMode) {
+            lastRegion = { localMode, regionMode: createRegionMode(localMode, properties) };
+        }
+        return lastRegion.regionMode;
+    };
     // noinspection JSUnusedGlobalSymbols
     const modeObj = {
-        token: (ss: StringStream, state: ITemplateState) => token(config, finalParserConfig, ss, state),
+        ...properties,
+        token (ss: StringStream, state: ITemplateState) {
+            const recovered = ss.sol() ? startLine(finalParserConfig, state, ss.string) : [];
+            const lineDepth = ss.sol() ? getContextDepth(state.patternContext) : 0;
+            return addRegionStyles(token(config, finalParserConfig, matcher, ss, state, recovered), state, lineDepth);
+        },
         startState (): ITemplateState {
-            return {
-                textBefore: '',
-                patternContext: {
-                    pre: null,
-                    pattern: finalParserConfig,
-                },
-                stateContext: initialStateContext,
-                useRoot: false,
-                start: false,
-                regExpCache: {},
-                customs: {},
-            };
+            return createState(finalParserConfig, baseModeObj ? {
+                pre: null,
+                mode: baseModeObj,
+                state: CodeMirror.startState(baseModeObj),
+            } : null);
+        },
+        blankLine (state: ITemplateState) {
+            const recovered = startLine(finalParserConfig, state, '');
+            recovered.forEach(layer => syncState(config, state, layer));
+            const localMode = getLocalMode(state);
+            const localStyle = localMode && localMode.blankLine ? localMode.blankLine(getLocalState(state)) : null;
+            const style = recovered.length ? addStyle(localStyle || null, 'line-cxj-error') : localStyle || null;
+            state.textBefore += '\n';
+            state.tokenPatternContext = state.patternContext;
+            state.tokenDelimiter = false;
+            return addRegionStyles(style, state, getContextDepth(state.patternContext));
         },
         copyState (state: ITemplateState): ITemplateState {
             return {
                 ...state,
                 layers: [...state.layers || []],
-                patternContext: copyPatternContext(state.patternContext),
+                escapes: [...state.escapes || []],
                 stateContext: copyStateContext(state.stateContext),
-                customs: cloneDeep(state.customs),
+                customs: copyStateCustoms(state.customs),
             };
         },
         indent (state: ITemplateState, textAfter: string, line?: string) {
-            const localMode = getLocalMode(state);
-            if (localMode && localMode.indent) {
-                const localState= getLocalState(state);
-                return (localMode as any).indent(localState, textAfter, line);
-            }
-            else {
-                return CodeMirror.Pass;
-            }
+            return indent(config, matcher, state, textAfter, line);
         },
         innerMode (state: ITemplateState) {
+            const localMode = getLocalMode(state);
             return {
                 state: getLocalState(state) || state,
-                mode: getLocalMode(state) || modeObj,
+                mode: localMode ? getRegionMode(localMode) : modeObj,
             };
         }
     };
     return modeObj;
 });
 
-export function createDefaultOptions(baseMode: any, codeMode: any): ITemplateOptions {
-    const singleQuote: IPattern = {
-        mode: null,
-        open: '\'',
-        close: '\'',
-        escape: '\\',
-    };
-    const doubleQuote: IPattern = {
+/**
+ * Register a helper, such as `lint`, by the mode name and globally, since the editor looks the helpers up by the inner mode.
+ */
+export function registerTemplateHelper(type: string, helper: any) {
+    CodeMirror.registerHelper(type, 'cxj-template', helper);
+    CodeMirror.registerGlobalHelper(type, 'cxj-template', (_, cm) => cm.getMode().name === 'cxj-template', helper);
+}
+
+/**
+ * Register a command to bind to the keys, nothing is registered with the runmode of node.
+ */
+export function registerTemplateCommand(name: string, command: (cm: Editor) => void) {
+    if (CodeMirror.commands) {
+        CodeMirror.commands[name] = command;
+    }
+}
+
+export interface IScannedLayer extends ILayer {
+    line: number;
+}
+
+export interface IScannedEscape extends IEscapeSequence {
+    line: number;
+}
+
+export interface IScanResult {
+    layers: IScannedLayer[];
+    escapes: IScannedEscape[];
+    /**
+     * The state at the end of the document.
+     */
+    state: ITemplateState;
+    /**
+     * The options merged with the default options.
+     */
+    options: ITemplateOptions;
+}
+
+/**
+ * Find the pattern delimiters and the escape sequences of the document with the pattern graph of the mode.
+ */
+export function scanTemplate(text: string, parserConfig: ITemplateOptions): IScanResult {
+    const finalParserConfig = resolveOptions(parserConfig);
+    const state = createState(finalParserConfig, null);
+    const matcher = createPatternMatcher();
+    const layers: IScannedLayer[] = [];
+    const escapes: IScannedEscape[] = [];
+    CodeMirror.splitLines(text).forEach((line, lineNo) => {
+        const lineEscapes: IEscapeSequence[] = [];
+        for (const layer of [...startLine(finalParserConfig, state, line), ...createLayers(finalParserConfig, matcher, state, line, 0, lineEscapes)]) {
+            layers.push({ ...layer, line: lineNo });
+        }
+        for (const escape of lineEscapes) {
+            escapes.push({ ...escape, line: lineNo });
+        }
+        state.textBefore += '\n';
+    });
+    return { layers, escapes, state, options: finalParserConfig };
+}
+
+/**
+ * The pattern stack of the last token read, its delimiters included.
+ */
+export function getTokenPatterns(state: ITemplateState): IPattern[] {
+    return toPatterns(state.tokenPatternContext || state.patternContext);
+}
+
+/**
+ * The pattern stack after the last token read, the pattern it closes excluded.
+ */
+export function getPatternsAfterToken(state: ITemplateState): IPattern[] {
+    const { layers } = state;
+    return toPatterns(layers && layers[0] ? layers[0].preContext : state.patternContext);
+}
+
+function toPatterns(context: IPatternContext | null): IPattern[] {
+    const patterns: IPattern[] = [];
+    while (context) {
+        patterns.unshift(context.pattern);
+        context = context.pre;
+    }
+    return patterns;
+}
+
+function getPatternDepth(state: ITemplateState) {
+    let depth = 0;
+    for (let context = state.patternContext.pre; context; context = context.pre) {
+        ++ depth;
+    }
+    return depth;
+}
+
+function getFlagChain(state: ITemplateState): IFlagChain | undefined {
+    const { chains } = state.customs;
+    return chains && chains[getPatternDepth(state)];
+}
+
+function setFlagChain(state: ITemplateState, chain: IFlagChain) {
+    const chains = state.customs.chains ? state.customs.chains.slice() : [];
+    chains[getPatternDepth(state)] = chain;
+    state.customs.chains = chains;
+}
+
+/**
+ * The delimiters of the default pattern graph.
+ */
+export interface IDelimiterProfile {
+    /**
+     * Open the code region, such as `#{`.
+     */
+    codeOpen: string;
+    codeClose: string;
+    /**
+     * The marker after the code opener which makes the code region a bind parameter, such as `:` of `#{:`. null if there is no bind parameter.
+     */
+    bindMarker: string | null;
+    /**
+     * Open the flag header, such as `#[`.
+     */
+    headerOpen: string;
+    headerClose: string;
+    /**
+     * Open the block following the flag header, such as `[`.
+     */
+    blockOpen: string;
+    blockClose: string;
+    /**
+     * Open the template comment, such as `#--`. null if there is no template comment.
+     */
+    commentOpen: string | null;
+    commentClose: string;
+    /**
+     * The quotes of the text and the code.
+     */
+    quotes: string[];
+    /**
+     * The bracket pairs of the text and the code.
+     */
+    brackets: Array<[string, string]>;
+    /**
+     * How a quote is escaped inside the quoted text, with `\` by default, or doubled such as `''` of sql.
+     */
+    quoteEscape: EscapeStrategy;
+    /**
+     * The escape of the delimiters in the text, such as `\` of `\#{` for a literal `#{`. null if the delimiters of the text can not be escaped.
+     */
+    textEscape: string | null;
+}
+
+export const DEFAULT_DELIMITERS: IDelimiterProfile = {
+    codeOpen: '#{',
+    codeClose: '}',
+    bindMarker: ':',
+    headerOpen: '#[',
+    headerClose: ']',
+    blockOpen: '[',
+    blockClose: ']',
+    commentOpen: '#--',
+    commentClose: '--#',
+    quotes: ['\'', '"'],
+    brackets: [['(', ')'], ['[', ']'], ['{', '}']],
+    quoteEscape: 'backslash',
+    textEscape: null,
+};
+
+/**
+ * `${ expr }`, `${: expr }`, `$[if][${ cond }][ body ]`, `$-- comment --$`
+ */
+export const DOLLAR_DELIMITERS: IDelimiterProfile = {
+    ...DEFAULT_DELIMITERS,
+    codeOpen: '${',
+    headerOpen: '$[',
+    commentOpen: '$--',
+    commentClose: '--$',
+};
+
+/**
+ * `{{ expr }}`, `{{: expr }}`, `{% if %}[{{ cond }}][ body ]`, `{{! comment }}`
+ */
+export const MUSTACHE_DELIMITERS: IDelimiterProfile = {
+    ...DEFAULT_DELIMITERS,
+    codeOpen: '{{',
+    codeClose: '}}',
+    headerOpen: '{%',
+    headerClose: '%}',
+    commentOpen: '{{!',
+    commentClose: '}}',
+};
+
+const QUOTE_NAMES: { [quote: string]: string } = {
+    '\'': 'single-quote',
+    '"': 'double-quote',
+};
+
+const BRACKET_NAMES: { [open: string]: string } = {
+    '(': 'parenthesis',
+    '[': 'bracket',
+    '{': 'brace',
+};
+
+const REG_CODE_LANGUAGE = /^\s*([^\s:]+)\s*:\s*$/;
+
+/**
+ * Get the language prefix of the code opener, such as `js` of `#{js:` and `#{:js:`, null without any.
+ */
+export function getCodeLanguage(matched: string | null, { codeOpen, bindMarker }: IDelimiterProfile): string | null {
+    if (!matched) {
+        return null;
+    }
+    let prefix = matched.slice(codeOpen.length).trim();
+    if (bindMarker && prefix.startsWith(bindMarker)) {
+        prefix = prefix.slice(bindMarker.length);
+    }
+    const result = REG_CODE_LANGUAGE.exec(prefix);
+    return result && result[1];
+}
+
+/**
+ * Whether the mode is defined, a mode CodeMirror does not know is the null mode.
+ */
+function isDefinedMode(mode: any): boolean {
+    const name = mode && typeof mode === 'object' ? mode.name : mode;
+    return typeof name === 'string' && (CodeMirror.modes.hasOwnProperty(name) || CodeMirror.mimeModes.hasOwnProperty(name));
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create the default pattern graph.
+ */
+export function createDefaultOptions(
+    baseMode: any,
+    codeMode: any,
+    flags?: IFlagDefinition[],
+    delimiters?: Partial<IDelimiterProfile>,
+    modes?: ITemplateOptions['modes'],
+): ITemplateOptions {
+    const allFlags = mergeFlags(flags);
+    const profile: IDelimiterProfile = { ...DEFAULT_DELIMITERS, ...delimiters };
+    const { codeOpen, codeClose, bindMarker, headerOpen, headerClose, blockOpen, blockClose, commentOpen, commentClose, quoteEscape, textEscape } = profile;
+    const quotes: IPattern[] = profile.quotes.map(quote => ({
+        name: QUOTE_NAMES[quote] || 'quote',
         mode: null,
-        open: '"',
-        close: '"',
+        open: quote,
+        close: quote,
         escape: '\\',
-    };
-    const parenthesis: IPattern = {
-        mode: null,
-        open: '(',
-        close: ')',
-    };
-    const bracket: IPattern = {
-        mode: null,
-        open: '[',
-        close: ']',
-    };
-    const brace: IPattern = {
+        escapeStrategy: quoteEscape,
+        escapeStyle: 'cxj-escape',
+    }));
+    const textEscapes: Pick<IPattern, 'escape' | 'escapeStyle'> = textEscape ? { escape: textEscape, escapeStyle: 'cxj-escape' } : {};
+    const brackets: IPattern[] = profile.brackets.map(([open, close]) => ({
+        name: BRACKET_NAMES[open] || 'bracket',
         mode: null,
-        open: '{',
-        close: '}',
-    };
-    const children = [singleQuote, doubleQuote, parenthesis, bracket, brace];
-    parenthesis.children = bracket.children = brace.children = children;
+        open,
+        close,
+        recover: { popOnUnmatchedClose: true },
+    }));
+    const children = [...quotes, ...brackets];
+    brackets.forEach(bracket => bracket.children = children);
+    const languages = modes ? Object.keys(modes) : [];
+    const languagePrefix = languages.length ? `(?:(?:${languages.map(escapeRegExp).join('|')})\\s*:\\s*)?` : '';
     const code: IPattern = {
-        mode: codeMode,
-        open: /#{\s*:?/,
-        close: '}',
+        name: 'code',
+        // A language whose mode is not defined falls back to the code mode.
+        mode: languages.length ? (matched: string | null) => {
+            const language = getCodeLanguage(matched, profile);
+            return language && isDefinedMode(modes![language]) ? language : codeMode;
+        } : codeMode,
+        // The whitespaces after the opener belong to it, so the code never starts with any.
+        open: new RegExp(`${escapeRegExp(codeOpen)}\\s*${bindMarker ? `(?:${escapeRegExp(bindMarker)}\\s*)?` : ''}${languagePrefix}`),
+        close: codeClose,
         children,
         patternStyles: ['bracket cxj-code open', 'bracket cxj-code close'],
+        // A flag header never appears in the code, it rather tells the code is left unclosed.
+        recover: { resync: [headerOpen], popOnUnmatchedClose: true },
     };
     const templateHeader: IPattern = {
-        mode: 'cxj-template-flag',
-        open: '#[',
-        close: ']',
+        name: 'template-header',
+        mode: {
+            name: 'cxj-template-flag',
+            keywords: allFlags.map(flag => flag.keyword),
+        },
+        open: headerOpen,
+        close: headerClose,
         patternStyles: ['bracket cxj-template cxj-template-flag open', 'bracket cxj-template cxj-template-flag close'],
     };
+    const comments: IPattern[] = commentOpen ? [{
+        name: 'comment',
+        mode: 'cxj-template-comment',
+        open: commentOpen,
+        close: commentClose,
+        patternStyles: ['comment cxj-comment open', 'comment cxj-comment close'],
+        transparent: true,
+    }] : [];
     const template: IPattern = {
-        mode: baseMode,
-        open (text: string, from: number, state: ITemplateState) {
-            let pos = text.indexOf('[', from);
-            if (state.customs.justExitTemplate !== true || (pos >= 0 && !REG_SPACE.test(state.textBefore + text.slice(from, pos)))) {
-                pos = -1;
+        name: 'template',
+        // A code block is in the code mode, the body of `#[lang=name]` is in the mode named if it is defined,
+        // and the other blocks are in the mode of the enclosing block.
+        mode(_: string | null, state: ITemplateState) {
+            const chain = getFlagChain(state);
+            if (chain && chain.flag && getBlockKindAt(chain.flag, chain.blocks - 1) === 'code') {
+                return codeMode;
+            }
+            if (chain && chain.flag && chain.flag.keyword === 'lang' && chain.argument && isDefinedMode(getNamedMode(modes, chain.argument))) {
+                return chain.argument;
             }
-            return pos >= 0 ? [pos, '['] : [-1, null];
+            let context = state.patternContext;
+            while (context.pre && context.pattern !== template) {
+                context = context.pre;
+            }
+            return context.mode;
+        },
+        open (text: string, from: number, state: ITemplateState) {
+            const chain = getFlagChain(state);
+            const pos = chain && chain.flag && chain.blocks >= getMaxBlocks(chain.flag) ? -1 : text.indexOf(blockOpen, from);
+            return pos >= 0 ? [pos, blockOpen] : [-1, null];
         },
-        close: ']',
+        openWhen: {
+            after: ['template', 'template-header'],
+        },
+        close: blockClose,
+        indent: true,
+        ...textEscapes,
         children: [
+            ...comments,
             code,
             ...children,
         ],
@@ -571,20 +1742,56 @@ export function createDefaultOptions(baseMode: any, codeMode: any): ITemplateOpt
         name: 'cxj-template',
         mode: baseMode,
         codeMode,
-        afterExit(state: ITemplateState, { pattern }) {
+        flags: allFlags,
+        delimiters: profile,
+        modes,
+        ...textEscapes,
+        afterExit(state: ITemplateState, { pattern, textBefore }) {
             if (pattern === template || pattern === templateHeader) {
                 state.customs.justExitTemplate = true;
             }
+            if (pattern === templateHeader) {
+                const { keyword, argument } = parseFlagHeader(textBefore);
+                setFlagChain(state, {
+                    flag: getFlagDefinition(allFlags, keyword),
+                    argument,
+                    blocks: 0,
+                });
+            }
         },
-        beforeEnter(state: ITemplateState) {
-            state.customs.justExitTemplate = false;
+        beforeEnter(state: ITemplateState, { pattern, textBefore }) {
+            if (!pattern!.transparent || !REG_SPACE.test(textBefore)) {
+                state.customs.justExitTemplate = false;
+            }
+            if (pattern === template) {
+                const chain = getFlagChain(state);
+                if (chain) {
+                    setFlagChain(state, { ...chain, blocks: chain.blocks + 1 });
+                }
+            }
         },
         children: [
-            singleQuote,
-            doubleQuote,
+            ...comments,
+            ...quotes,
             code,
             templateHeader,
             template,
         ],
     };
 }
+
+export * from './tokenize';
+export * from './parser';
+export * from './evaluator';
+export * from './render';
+export * from './compile';
+export * from './editor';
+export * from './lint';
+export * from './fold';
+export * from './hint';
+export * from './match';
+export * from './context';
+export * from './reference';
+export * from './comment';
+export * from './format';
+export * from './config';
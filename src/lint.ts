@@ -0,0 +1,245 @@
+import CodeMirror, { Editor } from 'codemirror';
+import { getEditorOptions } from './editor';
+import {
+    DEFAULT_DELIMITERS,
+    getBlockKinds,
+    getFlagDefinition,
+    IDelimiterProfile,
+    IFlagDefinition,
+    IPatternContext,
+    IScannedLayer,
+    IScanResult,
+    ITemplateOptions,
+    registerTemplateHelper,
+    scanTemplate,
+} from './index';
+import { DEFAULT_PARSER_OPTIONS, IBlockNode, IFlagHeaderNode, ISourceRange, parse, TemplateNode } from './parser';
+import { getConditionCode } from './render';
+
+export interface ILintPosition {
+    line: number;
+    ch: number;
+}
+
+export interface ITemplateLintAnnotation {
+    from: ILintPosition;
+    to: ILintPosition;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * The resolved flags and delimiters the messages follow.
+ */
+interface ILintContext {
+    flags: IFlagDefinition[] | undefined;
+    profile: IDelimiterProfile;
+    annotations: ITemplateLintAnnotation[];
+}
+
+/**
+ * Map the single character closers of the delimiters to their openers.
+ */
+function getClosers({ brackets, blockOpen, blockClose, headerOpen, headerClose, codeOpen, codeClose }: IDelimiterProfile) {
+    const closers: { [closer: string]: string } = {};
+    const pairs: Array<[string, string]> = [
+        ...brackets,
+        [blockOpen, blockClose],
+        [headerOpen.slice(-1), headerClose],
+        [codeOpen.slice(-1), codeClose],
+    ];
+    for (const [open, close] of pairs) {
+        if (open.length === 1 && close.length === 1) {
+            closers[close] = open;
+        }
+    }
+    return closers;
+}
+
+function isTextLevel(context: IPatternContext) {
+    return !context.pre || context.pattern.name === 'template';
+}
+
+function annotation(from: ILintPosition, to: ILintPosition, message: string, severity: ITemplateLintAnnotation['severity'] = 'error'): ITemplateLintAnnotation {
+    return { from, to, message, severity };
+}
+
+function rangeAnnotation({ from, to }: ISourceRange, message: string, severity?: ITemplateLintAnnotation['severity']) {
+    return annotation({ line: from.line, ch: from.ch }, { line: to.line, ch: to.ch }, message, severity);
+}
+
+/**
+ * A bracket opened in the text, which is not a pattern of the graph.
+ */
+interface IOpenBracket {
+    opener: string;
+    line: number;
+    ch: number;
+}
+
+function reportBrackets(brackets: IOpenBracket[], annotations: ITemplateLintAnnotation[]) {
+    for (const { opener, line, ch } of brackets) {
+        annotations.push(annotation({ line, ch }, { line, ch: ch + 1 }, `Unclosed "${opener}".`));
+    }
+}
+
+function lintDelimiters(text: string, { layers, state }: IScanResult, { profile, annotations }: ILintContext) {
+    const closers = getClosers(profile);
+    const openers = Object.keys(closers).map(closer => closers[closer]);
+    const lines = CodeMirror.splitLines(text);
+    const opened: IScannedLayer[] = [];
+    const unclosed: IScannedLayer[] = [];
+    // The brackets opened in every text region, the root one first.
+    const brackets: IOpenBracket[][] = [[]];
+    let context = state.patternContext;
+    while (context.pre) {
+        context = context.pre;
+    }
+    let index = 0;
+
+    function checkText(line: number, from: number, to: number, textContext: IPatternContext) {
+        if (!isTextLevel(textContext)) {
+            return;
+        }
+        const str = lines[line];
+        const opened = brackets[brackets.length - 1];
+        for (let ch = from; ch < to; ++ ch) {
+            const c = str.charAt(ch);
+            const opener = closers[c];
+            if (opener) {
+                let i = opened.length - 1;
+                while (i >= 0 && opened[i].opener !== opener) {
+                    -- i;
+                }
+                if (i >= 0) {
+                    opened.splice(i, 1);
+                } else {
+                    annotations.push(annotation({ line, ch }, { line, ch: ch + 1 }, `Stray "${c}" which closes nothing.`, 'warning'));
+                }
+            } else if (openers.indexOf(c) !== -1) {
+                opened.push({ opener: c, line, ch });
+            }
+        }
+    }
+
+    lines.forEach((str, line) => {
+        let offset = 0;
+        for (; index < layers.length && layers[index].line === line; ++ index) {
+            const layer = layers[index];
+            const { pos, matched, open, preContext, nextContext, recovered } = layer;
+            checkText(line, offset, pos, preContext);
+            if (open) {
+                opened.push(layer);
+                if (isTextLevel(nextContext)) {
+                    brackets.push([]);
+                }
+            } else {
+                if (recovered) {
+                    unclosed.push(...opened.splice(-1));
+                } else {
+                    opened.pop();
+                }
+                if (isTextLevel(preContext)) {
+                    reportBrackets(brackets.pop()!, annotations);
+                }
+            }
+            context = nextContext;
+            offset = pos + (matched ? matched.length : 0);
+        }
+        checkText(line, offset, str.length, context);
+    });
+    brackets.forEach(region => reportBrackets(region, annotations));
+    for (const { line, pos, matched } of [...unclosed, ...opened]) {
+        const to = { line, ch: pos + (matched ? matched.length : 0) };
+        annotations.push(annotation({ line, ch: pos }, to, `Unclosed "${matched}".`));
+    }
+}
+
+function lintBlockCode(block: IBlockNode, { annotations }: ILintContext) {
+    try {
+        getConditionCode(block);
+    } catch (e) {
+        annotations.push(rangeAnnotation(block.range, e.message));
+    }
+}
+
+/**
+ * Tell what the blocks following the header miss, by the kinds of the fewest blocks the flag accepts after them,
+ * the same kinds the highlighting gives the blocks, such as the condition of `#[if][#{ a }]`.
+ */
+function describeBlocks(flag: IFlagDefinition, count: number, header: string): string {
+    const { blocks, repeat = [] } = flag;
+    for (let more = count + 1; more <= Math.max(blocks.length, count + repeat.length); ++ more) {
+        const kinds = getBlockKinds(flag, more);
+        if (kinds) {
+            const missing = kinds.slice(count).map(kind => `a ${kind} block`).join(' and ');
+            return count ? `The "${header}" misses ${missing} after the ${kinds[count - 1]} block.` : `The "${header}" misses ${missing}.`;
+        }
+    }
+    return `The "${header}" does not accept ${count} blocks.`;
+}
+
+function lintHeader({ keyword, range }: IFlagHeaderNode, count: number, { flags, profile, annotations }: ILintContext) {
+    const flag = getFlagDefinition(flags, keyword);
+    if (!flag) {
+        annotations.push(rangeAnnotation(range, `Unknown flag "${keyword}".`));
+    } else if (!getBlockKinds(flag, count)) {
+        annotations.push(rangeAnnotation(range, describeBlocks(flag, count, `${profile.headerOpen}${keyword}${profile.headerClose}`)));
+    }
+}
+
+function lintNodes(nodes: TemplateNode[], context: ILintContext) {
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'expression':
+            case 'bind-parameter':
+                if (!node.code.trim()) {
+                    context.annotations.push(rangeAnnotation(node.range, 'Empty expression.'));
+                }
+                break;
+            case 'block':
+                lintNodes(node.children, context);
+                break;
+            case 'directive': {
+                const { header, blocks } = node;
+                lintHeader(header, blocks.length, context);
+                for (const block of blocks) {
+                    if (block.kind === 'code') {
+                        lintBlockCode(block, context);
+                    }
+                    lintNodes(block.children, context);
+                }
+                break;
+            }
+            case 'conditional': {
+                const { header, branches, elseBody } = node;
+                lintHeader(header, branches.length * 2 + (elseBody ? 1 : 0), context);
+                for (const { condition, body } of branches) {
+                    lintBlockCode(condition, context);
+                    lintNodes(condition.children, context);
+                    lintNodes(body.children, context);
+                }
+                if (elseBody) {
+                    lintNodes(elseBody.children, context);
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Find the unclosed patterns, stray closers, unknown flags, malformed `#[if]` chains and empty expressions in the template.
+ * @param text the document
+ * @param options the mode options, only the patterns are used.
+ */
+export function lintTemplate(text: string, options: ITemplateOptions = DEFAULT_PARSER_OPTIONS): ITemplateLintAnnotation[] {
+    const scan = scanTemplate(text, options);
+    const { flags, delimiters } = scan.options;
+    const context: ILintContext = { flags, profile: { ...DEFAULT_DELIMITERS, ...delimiters }, annotations: [] };
+    lintDelimiters(text, scan, context);
+    lintNodes(parse(text, options).children, context);
+    return context.annotations.sort((a, b) => a.from.line - b.from.line || a.from.ch - b.from.ch);
+}
+
+registerTemplateHelper('lint', (text: string, _: any, cm: Editor) => lintTemplate(text, getEditorOptions(cm)));
@@ -0,0 +1,250 @@
+import CodeMirror, { Editor, Position, TextMarker } from 'codemirror';
+import { getEditorCache, getEditorDocument, getEditorOptions } from './editor';
+import { IPattern, ITemplateOptions, registerTemplateCommand, scanTemplate } from './index';
+import { DEFAULT_PARSER_OPTIONS, IBlockNode, IConditionalNode, IDocumentNode, ISourcePosition, TemplateNode } from './parser';
+
+declare module 'codemirror' {
+    interface EditorConfiguration {
+        matchTemplateDelimiters?: boolean;
+    }
+}
+
+export interface ITemplateDelimiter {
+    from: Position;
+    to: Position;
+    open: boolean;
+    /**
+     * The pattern opened or closed by the delimiter.
+     */
+    pattern: IPattern;
+    /**
+     * The paired delimiter, null if the pattern is never closed.
+     */
+    match: ITemplateDelimiter | null;
+}
+
+/**
+ * The branch of an `#[if]` chain.
+ */
+export interface ITemplateBranch {
+    node: IConditionalNode;
+    /**
+     * The start of the conditions of the branches, and of the else body.
+     */
+    starts: ISourcePosition[];
+    /**
+     * The branch containing the position, the else body is the one after the last branch. -1 if the position is in the header.
+     */
+    index: number;
+}
+
+interface IMatchState {
+    marks: TextMarker[];
+}
+
+/**
+ * Find the pattern delimiters of the document and pair them, in the order of the document.
+ * The escaped delimiters are skipped just like the mode does, and the patterns closed by the recovery are left unpaired.
+ */
+export function findDelimiters(text: string, options: ITemplateOptions = DEFAULT_PARSER_OPTIONS): ITemplateDelimiter[] {
+    const { layers } = scanTemplate(text, options);
+    const delimiters: ITemplateDelimiter[] = [];
+    const opened: ITemplateDelimiter[] = [];
+    for (const { line, pos, matched, open, prePattern, nextPattern, recovered } of layers) {
+        if (recovered) {
+            opened.pop();
+            continue;
+        }
+        const delimiter: ITemplateDelimiter = {
+            from: { line, ch: pos },
+            to: { line, ch: pos + (matched ? matched.length : 0) },
+            open,
+            pattern: open ? nextPattern : prePattern,
+            match: null,
+        };
+        if (open) {
+            opened.push(delimiter);
+        } else {
+            const pre = opened.pop();
+            if (pre) {
+                pre.match = delimiter;
+                delimiter.match = pre;
+            }
+        }
+        delimiters.push(delimiter);
+    }
+    return delimiters;
+}
+
+/**
+ * Find the delimiter at the position. When the position touches two delimiters,
+ * the one the position is outside of wins, that is an opener starting or a closer ending at the position.
+ */
+export function findDelimiterAt(delimiters: ITemplateDelimiter[], pos: Position): ITemplateDelimiter | null {
+    let found: ITemplateDelimiter | null = null;
+    for (const delimiter of delimiters) {
+        const { from, to, open } = delimiter;
+        if (from.line > pos.line) {
+            break;
+        }
+        if (from.line < pos.line || from.ch > pos.ch || to.ch < pos.ch || from.ch === to.ch) {
+            continue;
+        }
+        if ((open ? from.ch : to.ch) === pos.ch) {
+            return delimiter;
+        }
+        found = found || delimiter;
+    }
+    return found;
+}
+
+function getEditorDelimiters(cm: Editor) {
+    return getEditorCache(cm, 'delimiters', () => findDelimiters(cm.getValue(), getEditorOptions(cm)));
+}
+
+function isTemplateEditor(cm: Editor) {
+    return cm.getMode().name === 'cxj-template';
+}
+
+function clearMarks(cm: Editor) {
+    const state: IMatchState | undefined = cm.state.cxjTemplateMatchDelimiters;
+    if (state) {
+        state.marks.forEach(mark => mark.clear());
+        state.marks = [];
+    }
+}
+
+function highlightDelimiters(cm: Editor) {
+    const state: IMatchState = cm.state.cxjTemplateMatchDelimiters;
+    cm.operation(() => {
+        clearMarks(cm);
+        if (!isTemplateEditor(cm)) {
+            return;
+        }
+        const delimiters = getEditorDelimiters(cm);
+        for (const { head } of cm.listSelections()) {
+            const delimiter = findDelimiterAt(delimiters, head);
+            if (!delimiter) {
+                continue;
+            }
+            const className = delimiter.match ? 'cxj-matching-delimiter' : 'cxj-nonmatching-delimiter';
+            for (const { from, to } of delimiter.match ? [delimiter, delimiter.match] : [delimiter]) {
+                state.marks.push(cm.markText(from, to, { className }));
+            }
+        }
+    });
+}
+
+/**
+ * Move the cursor to the delimiter paired with the one at the cursor,
+ * before the opener or after the closer, so running it again jumps back.
+ */
+export function goToMatchingTemplateDelimiter(cm: Editor) {
+    if (!isTemplateEditor(cm)) {
+        return;
+    }
+    const delimiter = findDelimiterAt(getEditorDelimiters(cm), cm.getCursor());
+    const match = delimiter && delimiter.match;
+    if (match) {
+        cm.setCursor(match.open ? match.from : match.to);
+    }
+}
+
+function getBranchBlocks({ branches, elseBody }: IConditionalNode) {
+    const blocks: IBlockNode[] = [];
+    branches.forEach(({ condition, body }) => blocks.push(condition, body));
+    if (elseBody) {
+        blocks.push(elseBody);
+    }
+    return blocks;
+}
+
+function findConditional(nodes: TemplateNode[], offset: number): IConditionalNode | null {
+    for (const node of nodes) {
+        const { from, to } = node.range;
+        if (from.offset > offset || to.offset < offset) {
+            continue;
+        }
+        let found: IConditionalNode | null = null;
+        switch (node.type) {
+            case 'block':
+                found = findConditional(node.children, offset);
+                break;
+            case 'directive':
+                found = findConditional(node.blocks, offset);
+                break;
+            case 'conditional':
+                found = findConditional(getBranchBlocks(node), offset) || node;
+                break;
+        }
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the branch of the innermost conditional chain at the offset, null if the offset is in no conditional chain.
+ */
+export function findBranchAt(document: IDocumentNode, offset: number): ITemplateBranch | null {
+    const node = findConditional(document.children, offset);
+    if (!node) {
+        return null;
+    }
+    const starts = node.branches.map(({ condition }) => condition.range.from);
+    if (node.elseBody) {
+        starts.push(node.elseBody.range.from);
+    }
+    let index = -1;
+    starts.forEach((start, i) => {
+        if (start.offset <= offset) {
+            index = i;
+        }
+    });
+    return { node, starts, index };
+}
+
+function goToBranch(cm: Editor, step: number) {
+    if (!isTemplateEditor(cm)) {
+        return;
+    }
+    const branch = findBranchAt(getEditorDocument(cm), cm.indexFromPos(cm.getCursor()));
+    const target = branch && branch.starts[branch.index + step];
+    if (target) {
+        cm.setCursor({ line: target.line, ch: target.ch });
+    }
+}
+
+/**
+ * Move the cursor to the condition of the next branch, or to the else body, of the innermost `#[if]` chain.
+ */
+export function goToNextTemplateBranch(cm: Editor) {
+    goToBranch(cm, 1);
+}
+
+/**
+ * Move the cursor to the previous branch of the innermost `#[if]` chain.
+ */
+export function goToPreviousTemplateBranch(cm: Editor) {
+    goToBranch(cm, -1);
+}
+
+registerTemplateCommand('goToMatchingTemplateDelimiter', goToMatchingTemplateDelimiter);
+registerTemplateCommand('goToNextTemplateBranch', goToNextTemplateBranch);
+registerTemplateCommand('goToPreviousTemplateBranch', goToPreviousTemplateBranch);
+
+// The options do not exist with the runmode of node.
+if (CodeMirror.defineOption) {
+    CodeMirror.defineOption('matchTemplateDelimiters', false, (cm: Editor, value: boolean, old: any) => {
+        if (old && old !== CodeMirror.Init) {
+            cm.off('cursorActivity', highlightDelimiters);
+            clearMarks(cm);
+        }
+        if (value) {
+            cm.state.cxjTemplateMatchDelimiters = { marks: [] };
+            cm.on('cursorActivity', highlightDelimiters);
+            highlightDelimiters(cm);
+        }
+    });
+}
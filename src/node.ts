@@ -0,0 +1,4 @@
+// The entry for node. The codemirror library needs dom, so shim it with the standalone mode runner before loading the mode.
+import 'codemirror/addon/runmode/runmode.node';
+
+export * from './index';
@@ -0,0 +1,401 @@
+import {
+    BlockKind,
+    DEFAULT_DELIMITERS,
+    getBlockKinds,
+    getCodeLanguage,
+    getFlagDefinition,
+    IDelimiterProfile,
+    IFlagDefinition,
+    IPattern,
+    ITemplateOptions,
+    parseFlagHeader,
+    scanTemplate,
+} from './index';
+
+export interface ISourcePosition {
+    line: number;
+    ch: number;
+    /**
+     * The offset from the start of the document.
+     */
+    offset: number;
+}
+
+export interface ISourceRange {
+    from: ISourcePosition;
+    to: ISourcePosition;
+}
+
+interface INode {
+    range: ISourceRange;
+}
+
+/**
+ * The text of the base mode, such as sql. The escaped delimiters are literal, such as `#{` of `\#{`, unlike the source of the range.
+ */
+export interface ITextNode extends INode {
+    type: 'text';
+    text: string;
+}
+
+/**
+ * `#{ expr }`, the expression is inlined.
+ */
+export interface IExpressionNode extends INode {
+    type: 'expression';
+    code: string;
+    codeRange: ISourceRange;
+    /**
+     * The language prefix, such as `js` of `#{js: expr }`.
+     */
+    language?: string;
+}
+
+/**
+ * `#{: expr }`, the expression is bound as a parameter.
+ */
+export interface IBindParameterNode extends INode {
+    type: 'bind-parameter';
+    code: string;
+    codeRange: ISourceRange;
+    language?: string;
+}
+
+/**
+ * `#[keyword]` or `#[keyword=argument]`
+ */
+export interface IFlagHeaderNode extends INode {
+    type: 'flag-header';
+    keyword: string;
+    argument: string | null;
+}
+
+/**
+ * `#-- ... --#`, nothing inside is parsed.
+ */
+export interface ICommentNode extends INode {
+    type: 'comment';
+    text: string;
+    contentRange: ISourceRange;
+}
+
+/**
+ * `[ ... ]` following a flag header.
+ */
+export interface IBlockNode extends INode {
+    type: 'block';
+    children: TemplateNode[];
+    contentRange: ISourceRange;
+    /**
+     * The kind declared by the flag definition, undefined if the flag is unknown or the blocks do not match the definition.
+     */
+    kind?: BlockKind;
+}
+
+export interface IConditionalBranch {
+    condition: IBlockNode;
+    body: IBlockNode;
+}
+
+/**
+ * `#[if][cond][body][cond][body]...[else]`
+ */
+export interface IConditionalNode extends INode {
+    type: 'conditional';
+    header: IFlagHeaderNode;
+    branches: IConditionalBranch[];
+    elseBody: IBlockNode | null;
+}
+
+/**
+ * A flag header other than the conditional ones, and the blocks following it.
+ */
+export interface IDirectiveNode extends INode {
+    type: 'directive';
+    header: IFlagHeaderNode;
+    blocks: IBlockNode[];
+    /**
+     * null if the keyword is not declared.
+     */
+    flag: IFlagDefinition | null;
+}
+
+export type TemplateNode = ITextNode | ICommentNode | IExpressionNode | IBindParameterNode | IBlockNode | IConditionalNode | IDirectiveNode;
+
+export interface IDocumentNode extends INode {
+    type: 'document';
+    children: TemplateNode[];
+}
+
+export const DEFAULT_PARSER_OPTIONS: ITemplateOptions = {
+    name: 'cxj-template',
+    mode: null,
+    codeMode: null,
+};
+
+const REG_SPACE = /^\s*$/;
+const REG_NEW_LINE = /\r\n?|\n/g;
+
+enum FrameKind {
+    DOCUMENT,
+    BLOCK,
+    CODE,
+    HEADER,
+    COMMENT,
+    RAW,
+}
+
+/**
+ * The escape to drop from the text.
+ */
+interface ITextEscape {
+    offset: number;
+    length: number;
+}
+
+interface IFrame {
+    kind: FrameKind;
+    pattern: IPattern | null;
+    from: ISourcePosition;
+    contentFrom: ISourcePosition;
+    matched: string | null;
+    children: TemplateNode[];
+    textFrom: ISourcePosition;
+}
+
+function getFrameKind(pattern: IPattern): FrameKind | null {
+    switch (pattern.name) {
+        case 'code':
+            return FrameKind.CODE;
+        case 'template-header':
+            return FrameKind.HEADER;
+        case 'template':
+            return FrameKind.BLOCK;
+        case 'comment':
+            return FrameKind.COMMENT;
+        default:
+            return null;
+    }
+}
+
+function isBindParameter(matched: string | null, profile: IDelimiterProfile) {
+    const { codeOpen, bindMarker } = profile;
+    const language = getCodeLanguage(matched, profile);
+    return !!matched && !!bindMarker && matched.slice(codeOpen.length, language ? matched.lastIndexOf(language) : undefined).trim() === bindMarker;
+}
+
+function getLineStarts(text: string) {
+    const starts = [0];
+    REG_NEW_LINE.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = REG_NEW_LINE.exec(text))) {
+        starts.push(result.index + result[0].length);
+    }
+    return starts;
+}
+
+function range(from: ISourcePosition, to: ISourcePosition): ISourceRange {
+    return { from, to };
+}
+
+function unescapeText(text: string, from: number, to: number, escapes: ITextEscape[]) {
+    let unescaped = '';
+    for (const { offset, length } of escapes) {
+        if (from <= offset && offset < to) {
+            unescaped += text.slice(from, offset);
+            from = offset + length;
+        }
+    }
+    return unescaped + text.slice(from, to);
+}
+
+function flushText(text: string, frame: IFrame, to: ISourcePosition, escapes: ITextEscape[]) {
+    const { textFrom } = frame;
+    if (textFrom.offset < to.offset) {
+        frame.children.push({
+            type: 'text',
+            text: unescapeText(text, textFrom.offset, to.offset, escapes),
+            range: range(textFrom, to),
+        });
+    }
+}
+
+function appendBlock(children: TemplateNode[], block: IBlockNode) {
+    let i = children.length - 1;
+    while (i >= 0) {
+        const child = children[i];
+        if (child.type !== 'comment' && (child.type !== 'text' || !REG_SPACE.test(child.text))) {
+            break;
+        }
+        -- i;
+    }
+    const owner = i >= 0 ? children[i] : null;
+    if (owner && owner.type === 'directive') {
+        children.splice(i + 1);
+        owner.blocks.push(block);
+        owner.range = range(owner.range.from, block.range.to);
+    } else {
+        children.push(block);
+    }
+}
+
+function toConditional(directive: IDirectiveNode): IConditionalNode {
+    const { header, blocks } = directive;
+    const branches: IConditionalBranch[] = [];
+    for (let i = 0; i + 1 < blocks.length; i += 2) {
+        branches.push({
+            condition: blocks[i],
+            body: blocks[i + 1],
+        });
+    }
+    return {
+        type: 'conditional',
+        header,
+        branches,
+        elseBody: blocks.length % 2 === 1 ? blocks[blocks.length - 1] : null,
+        range: directive.range,
+    };
+}
+
+function finalizeChildren(children: TemplateNode[], flags: IFlagDefinition[] | undefined): TemplateNode[] {
+    return children.map(child => {
+        if (child.type === 'block') {
+            child.children = finalizeChildren(child.children, flags);
+        } else if (child.type === 'directive') {
+            const flag = child.flag = getFlagDefinition(flags, child.header.keyword);
+            const kinds = flag && getBlockKinds(flag, child.blocks.length);
+            child.blocks.forEach((block, i) => {
+                block.children = finalizeChildren(block.children, flags);
+                if (kinds) {
+                    block.kind = kinds[i];
+                }
+            });
+            if (flag && flag.conditional) {
+                return toConditional(child);
+            }
+        }
+        return child;
+    });
+}
+
+/**
+ * Parse the document to an ast with the same pattern graph used by the mode.
+ * Unclosed patterns are closed at the end of the document.
+ * @param text the document
+ * @param options the mode options, only the patterns are used.
+ */
+export function parse(text: string, options: ITemplateOptions = DEFAULT_PARSER_OPTIONS): IDocumentNode {
+    const { layers, escapes, options: finalOptions } = scanTemplate(text, options);
+    const { flags, delimiters } = finalOptions;
+    const profile: IDelimiterProfile = { ...DEFAULT_DELIMITERS, ...delimiters };
+    const lineStarts = getLineStarts(text);
+    const position = (line: number, ch: number): ISourcePosition => ({ line, ch, offset: lineStarts[line] + ch });
+    // Only the escapes of the text itself are dropped, the ones of the quotes in the text belong to the base mode.
+    const textEscapes: ITextEscape[] = escapes
+        .filter(({ pattern }) => pattern === finalOptions || getFrameKind(pattern) === FrameKind.BLOCK)
+        .map(({ line, pos, escape }) => ({ offset: position(line, pos).offset, length: escape.length }));
+    const start = position(0, 0);
+    const root: IFrame = {
+        kind: FrameKind.DOCUMENT,
+        pattern: null,
+        from: start,
+        contentFrom: start,
+        matched: null,
+        children: [],
+        textFrom: start,
+    };
+    const frames: IFrame[] = [root];
+
+    function closeFrame(closeFrom: ISourcePosition, closeTo: ISourcePosition) {
+        const frame = frames.pop()!;
+        const parent = frames[frames.length - 1];
+        const contentRange = range(frame.contentFrom, closeFrom);
+        const nodeRange = range(frame.from, closeTo);
+        const content = text.slice(frame.contentFrom.offset, closeFrom.offset);
+        switch (frame.kind) {
+            case FrameKind.CODE: {
+                const language = getCodeLanguage(frame.matched, profile);
+                parent.children.push({
+                    type: isBindParameter(frame.matched, profile) ? 'bind-parameter' : 'expression',
+                    code: content,
+                    codeRange: contentRange,
+                    range: nodeRange,
+                    ...language ? { language } : {},
+                });
+                break;
+            }
+            case FrameKind.HEADER:
+                parent.children.push({
+                    type: 'directive',
+                    header: {
+                        type: 'flag-header',
+                        ...parseFlagHeader(content),
+                        range: nodeRange,
+                    },
+                    blocks: [],
+                    flag: null,
+                    range: nodeRange,
+                });
+                break;
+            case FrameKind.COMMENT:
+                parent.children.push({
+                    type: 'comment',
+                    text: content,
+                    contentRange,
+                    range: nodeRange,
+                });
+                break;
+            case FrameKind.BLOCK:
+                flushText(text, frame, closeFrom, textEscapes);
+                appendBlock(parent.children, {
+                    type: 'block',
+                    children: frame.children,
+                    contentRange,
+                    range: nodeRange,
+                });
+                break;
+        }
+        if (frame.kind !== FrameKind.RAW) {
+            parent.textFrom = closeTo;
+        }
+    }
+
+    for (const layer of layers) {
+        const { line, pos, matched, open, prePattern, nextPattern } = layer;
+        const from = position(line, pos);
+        const to = position(line, pos + (matched ? matched.length : 0));
+        const kind = getFrameKind(open ? nextPattern : prePattern);
+        if (kind === null) {
+            continue;
+        }
+        if (open) {
+            const top = frames[frames.length - 1];
+            const raw = top.kind !== FrameKind.DOCUMENT && top.kind !== FrameKind.BLOCK;
+            if (!raw) {
+                flushText(text, top, from, textEscapes);
+            }
+            frames.push({
+                kind: raw ? FrameKind.RAW : kind,
+                pattern: nextPattern,
+                from,
+                contentFrom: to,
+                matched,
+                children: [],
+                textFrom: to,
+            });
+        } else if (frames.length > 1 && frames[frames.length - 1].pattern === prePattern) {
+            closeFrame(from, to);
+        }
+    }
+    const lastLine = lineStarts.length - 1;
+    const end = position(lastLine, text.length - lineStarts[lastLine]);
+    while (frames.length > 1) {
+        closeFrame(end, end);
+    }
+    flushText(text, root, end, textEscapes);
+    return {
+        type: 'document',
+        children: finalizeChildren(root.children, flags),
+        range: range(start, end),
+    };
+}
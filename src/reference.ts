@@ -0,0 +1,283 @@
+import { Editor } from 'codemirror';
+import { getEditorCache, getEditorDocument } from './editor';
+import { ITemplateOptions, registerTemplateCommand } from './index';
+import { DEFAULT_PARSER_OPTIONS, IBindParameterNode, IDocumentNode, IExpressionNode, ISourcePosition, ISourceRange, parse, TemplateNode } from './parser';
+
+declare module 'codemirror' {
+    interface DialogOptions {
+        bottom?: boolean;
+        closeOnEnter?: boolean;
+        closeOnBlur?: boolean;
+        value?: string;
+        selectValueOnOpen?: boolean;
+    }
+
+    interface Editor {
+        /**
+         * Defined by the dialog addon, `codemirror/addon/dialog/dialog`.
+         */
+        openDialog?(template: string | Node, callback: (value: string, e: Event) => void, options?: DialogOptions): () => void;
+    }
+}
+
+/**
+ * An identifier of the code, such as `type` of `#{ domainInfo.type }`.
+ */
+export interface ITemplateReference {
+    name: string;
+    /**
+     * The property path ending with the identifier, such as `domainInfo.type`. The root identifier is the variable of the context.
+     */
+    path: string;
+    range: ISourceRange;
+    node: IExpressionNode | IBindParameterNode;
+}
+
+/**
+ * The comments, the string literals, the numbers, the identifiers, the property accessors and the arrows of the code, or any other character.
+ */
+const REG_CODE_TOKEN = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^'\\]|\\[\s\S])*'?|"(?:[^"\\]|\\[\s\S])*"?|`(?:[^`\\]|\\[\s\S])*`?|\d[\w.]*|[A-Za-z_$][\w$]*|\?\.|->|=>|\S/g;
+const REG_COMMENT = /^\/[/*]/;
+const REG_IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const KEYWORDS = [
+    'true', 'false', 'null', 'undefined', 'new', 'this', 'super', 'in', 'instanceof', 'typeof', 'void', 'delete',
+    'as', 'def', 'var', 'let', 'const', 'function', 'return', 'if', 'else', 'for', 'while',
+];
+const DECLARATIONS = ['def', 'var', 'let', 'const'];
+/**
+ * The tokens an identifier follows when it is the key of an object or a map literal, or a named argument, such as `a` of `[a: 1]`.
+ */
+const KEY_PREFIXES = ['{', '[', '(', ','];
+
+interface ICodeToken {
+    text: string;
+    index: number;
+}
+
+function toPosition(from: ISourcePosition, code: string, index: number): ISourcePosition {
+    const before = code.slice(0, index);
+    const lastBreak = before.lastIndexOf('\n');
+    const lines = before.split('\n').length - 1;
+    return {
+        line: from.line + lines,
+        ch: lines ? index - lastBreak - 1 : from.ch + index,
+        offset: from.offset + index,
+    };
+}
+
+function readTokens(code: string): ICodeToken[] {
+    const tokens: ICodeToken[] = [];
+    REG_CODE_TOKEN.lastIndex = 0;
+    for (let result = REG_CODE_TOKEN.exec(code); result; result = REG_CODE_TOKEN.exec(code)) {
+        if (!REG_COMMENT.test(result[0])) {
+            tokens.push({ text: result[0], index: result.index });
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Find the names the code binds itself, which are no context variables: the parameters of the closures, such as `x` of `{ x -> x.a }`,
+ * the parameters of the arrow functions and the declared variables.
+ */
+function findBoundNames(tokens: ICodeToken[]): string[] {
+    const names: string[] = [];
+    tokens.forEach(({ text }, i) => {
+        if (text === '->' || (text === '=>' && i > 0 && tokens[i - 1].text === ')')) {
+            // The parameters before the arrow, up to the brace of the closure or the parenthesis of the arrow function.
+            for (let j = text === '=>' ? i - 2 : i - 1; j >= 0 && tokens[j].text !== '{' && tokens[j].text !== '('; -- j) {
+                if (REG_IDENTIFIER.test(tokens[j].text)) {
+                    names.push(tokens[j].text);
+                }
+            }
+        } else if (text === '=>' && i > 0 && REG_IDENTIFIER.test(tokens[i - 1].text)) {
+            names.push(tokens[i - 1].text);
+        } else if (DECLARATIONS.indexOf(text) !== -1 && i + 1 < tokens.length && REG_IDENTIFIER.test(tokens[i + 1].text)) {
+            names.push(tokens[i + 1].text);
+        }
+    });
+    return names;
+}
+
+/**
+ * Find the context variables of the code and their property paths. The identifier after a property accessor extends the path of the one before it,
+ * and the methods, called with the arguments or a closure, the properties of anything else, such as a call or an index, the keys of the literals and the names the code binds are skipped.
+ * The implicit parameter `it` of the Groovy closures is skipped inside the braces.
+ */
+function indexCode(references: ITemplateReference[], node: IExpressionNode | IBindParameterNode) {
+    const { code, codeRange: { from } } = node;
+    const tokens = readTokens(code);
+    const bound = findBoundNames(tokens);
+    let path: string | null = null;
+    let accessed: string | null = null;
+    let braces = 0;
+    tokens.forEach(({ text, index }, i) => {
+        if (text === '.' || text === '?.') {
+            accessed = path;
+            path = null;
+            return;
+        }
+        const before = i > 0 ? tokens[i - 1].text : '';
+        const after = i + 1 < tokens.length ? tokens[i + 1].text : '';
+        const member = before === '.' || before === '?.';
+        const owner = member ? accessed : null;
+        path = null;
+        accessed = null;
+        if (text === '{') {
+            ++ braces;
+        } else if (text === '}') {
+            -- braces;
+        }
+        const valid = member
+            ? owner !== null && REG_IDENTIFIER.test(text) && after !== '(' && after !== '{'
+            : isIdentifier(text) && bound.indexOf(text) === -1 && !(text === 'it' && braces > 0) && !(after === ':' && KEY_PREFIXES.indexOf(before) !== -1);
+        if (!valid) {
+            return;
+        }
+        path = member ? `${owner}.${text}` : text;
+        references.push({
+            name: text,
+            path,
+            range: {
+                from: toPosition(from, code, index),
+                to: toPosition(from, code, index + text.length),
+            },
+            node,
+        });
+    });
+}
+
+function collectReferences(references: ITemplateReference[], nodes: TemplateNode[]) {
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'expression':
+            case 'bind-parameter':
+                indexCode(references, node);
+                break;
+            case 'block':
+                collectReferences(references, node.children);
+                break;
+            case 'directive':
+                collectReferences(references, node.blocks);
+                break;
+            case 'conditional':
+                node.branches.forEach(({ condition, body }) => collectReferences(references, [condition, body]));
+                if (node.elseBody) {
+                    collectReferences(references, [node.elseBody]);
+                }
+                break;
+        }
+    }
+}
+
+/**
+ * Index the identifiers of the `#{ }` regions, in the order of the document.
+ * The comments and the string literals of the code are skipped, and so are the text, the headers and the template comments.
+ * @param template the template text or the parsed document
+ * @param options the options used to parse the template when it is a string
+ */
+export function indexReferences(template: string | IDocumentNode, options: ITemplateOptions = DEFAULT_PARSER_OPTIONS): ITemplateReference[] {
+    const document = typeof template === 'string' ? parse(template, options) : template;
+    const references: ITemplateReference[] = [];
+    collectReferences(references, document.children);
+    return references;
+}
+
+/**
+ * Find the reference at the offset, the ends of the identifier included.
+ */
+export function findReferenceAt(references: ITemplateReference[], offset: number): ITemplateReference | null {
+    for (const reference of references) {
+        const { from, to } = reference.range;
+        if (from.offset <= offset && offset <= to.offset) {
+            return reference;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the references of the path, such as every `domainInfo.type` but not `domain.type`.
+ */
+export function findReferences(references: ITemplateReference[], path: string): ITemplateReference[] {
+    return references.filter(reference => reference.path === path);
+}
+
+function isIdentifier(name: string) {
+    return REG_IDENTIFIER.test(name) && KEYWORDS.indexOf(name) === -1;
+}
+
+/**
+ * Rename the last identifier of the path everywhere it is referred, such as `type` of every `domainInfo.type`.
+ * Only the code is touched, never the text, the string literals or the comments.
+ * @param text the template
+ * @param path the path to rename
+ * @param name the new identifier
+ * @param options the options used to parse the template
+ */
+export function renameReferences(text: string, path: string, name: string, options: ITemplateOptions = DEFAULT_PARSER_OPTIONS): string {
+    if (!isIdentifier(name)) {
+        throw new Error(`Invalid identifier "${name}".`);
+    }
+    let renamed = '';
+    let last = 0;
+    for (const { range: { from, to } } of findReferences(indexReferences(text, options), path)) {
+        renamed += text.slice(last, from.offset) + name;
+        last = to.offset;
+    }
+    return renamed + text.slice(last);
+}
+
+function getEditorReferences(cm: Editor) {
+    return getEditorCache(cm, 'references', () => indexReferences(getEditorDocument(cm)));
+}
+
+function getReferencesAtCursor(cm: Editor): ITemplateReference[] {
+    if (cm.getMode().name !== 'cxj-template') {
+        return [];
+    }
+    const references = getEditorReferences(cm);
+    const reference = findReferenceAt(references, cm.indexFromPos(cm.getCursor()));
+    return reference ? findReferences(references, reference.path) : [];
+}
+
+/**
+ * Select all the references of the path at the cursor, the primary selection stays at the cursor.
+ */
+export function selectTemplateReferences(cm: Editor) {
+    const references = getReferencesAtCursor(cm);
+    if (!references.length) {
+        return;
+    }
+    const offset = cm.indexFromPos(cm.getCursor());
+    const ranges = references.map(({ range: { from, to } }) => ({ anchor: cm.posFromIndex(from.offset), head: cm.posFromIndex(to.offset) }));
+    const primary = references.indexOf(findReferenceAt(references, offset)!);
+    cm.setSelections(ranges, primary);
+}
+
+/**
+ * Rename the path at the cursor in all the `#{ }` regions, asking the new identifier with the dialog addon.
+ * Nothing is done without the dialog addon.
+ */
+export function renameTemplateReference(cm: Editor) {
+    const references = getReferencesAtCursor(cm);
+    if (!references.length || !cm.openDialog) {
+        return;
+    }
+    const { name } = references[0];
+    const rename = (value: string) => {
+        if (value === name || !isIdentifier(value)) {
+            return;
+        }
+        cm.operation(() => {
+            for (let i = references.length - 1; i >= 0; -- i) {
+                const { from, to } = references[i].range;
+                cm.replaceRange(value, cm.posFromIndex(from.offset), cm.posFromIndex(to.offset));
+            }
+        });
+    };
+    cm.openDialog(`Rename ${references[0].path} to: <input type="text" style="width: 10em"/>`, rename, { value: name });
+}
+
+registerTemplateCommand('selectTemplateReferences', selectTemplateReferences);
+registerTemplateCommand('renameTemplateReference', renameTemplateReference);
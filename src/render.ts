@@ -0,0 +1,191 @@
+import { Evaluator, evaluateExpression } from './evaluator';
+import { ITemplateOptions } from './index';
+import {
+    DEFAULT_PARSER_OPTIONS,
+    IBindParameterNode,
+    IBlockNode,
+    IConditionalNode,
+    IDirectiveNode,
+    IDocumentNode,
+    IExpressionNode,
+    parse,
+    TemplateNode,
+} from './parser';
+
+export interface IRenderOptions {
+    /**
+     * Evaluate the code of conditions, expressions and bind parameters.
+     * Default is the built-in `evaluateExpression`, which supports property paths and comparisons.
+     */
+    evaluator?: Evaluator;
+    /**
+     * Convert the value of an expression or a bind parameter to text. Default is `String`, with `null` and `undefined` as empty text.
+     */
+    stringify?: (value: any, node: IExpressionNode | IBindParameterNode) => string;
+    /**
+     * The options used to parse the template when it is a string.
+     */
+    parserOptions?: ITemplateOptions;
+    /**
+     * Render the flags other than `if`, by the keyword.
+     */
+    directives?: {
+        [keyword: string]: DirectiveRenderer;
+    };
+}
+
+export interface IDirectiveRenderContext {
+    context: any;
+    evaluator: Evaluator;
+    /**
+     * Render the block, against another context if given.
+     */
+    renderBlock: (block: IBlockNode, context?: any) => string;
+}
+
+export type DirectiveRenderer = (node: IDirectiveNode, renderContext: IDirectiveRenderContext) => string;
+
+/**
+ * The directives of the default flags. `#[lang=name]` only changes the mode of its body, which is rendered as it is.
+ */
+const DEFAULT_DIRECTIVES: { [keyword: string]: DirectiveRenderer } = {
+    lang: ({ blocks }, { renderBlock }) => blocks.map(block => renderBlock(block)).join(''),
+};
+
+const REG_SPACE = /^\s*$/;
+
+export function defaultStringify(value: any) {
+    return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Get the code of a code block, such as the condition of a conditional branch. The block should contain exactly one `#{ }` region.
+ */
+export function getConditionCode(condition: IBlockNode): string {
+    const significant = condition.children.filter(child => child.type !== 'text' || !REG_SPACE.test(child.text));
+    const [node] = significant;
+    if (significant.length !== 1 || (node.type !== 'expression' && node.type !== 'bind-parameter')) {
+        const { line, ch } = condition.range.from;
+        throw new Error(`The block at ${line + 1}:${ch + 1} should contain exactly one code expression.`);
+    }
+    return node.code;
+}
+
+/**
+ * Find the body of the first branch whose condition passes, or the else body.
+ * @return the chosen body, null if there is no one.
+ */
+export function resolveConditional(node: IConditionalNode, test: (code: string, condition: IBlockNode) => boolean): IBlockNode | null {
+    for (const { condition, body } of node.branches) {
+        if (test(getConditionCode(condition), condition)) {
+            return body;
+        }
+    }
+    return node.elseBody;
+}
+
+/**
+ * Decide how every construct of the template is rendered.
+ */
+export interface IRenderHandlers {
+    expression: (node: IExpressionNode) => string;
+    bindParameter: (node: IBindParameterNode) => string;
+    /**
+     * Whether the branch is chosen.
+     */
+    test: (code: string, condition: IBlockNode) => boolean;
+    /**
+     * Render the flags other than `if`. Without it, these flags can not be rendered.
+     */
+    directive?: (node: IDirectiveNode) => string;
+}
+
+function renderNodes(nodes: TemplateNode[], handlers: IRenderHandlers): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.text;
+            case 'comment':
+                return '';
+            case 'expression':
+                return handlers.expression(node);
+            case 'bind-parameter':
+                return handlers.bindParameter(node);
+            case 'block':
+                return renderNodes(node.children, handlers);
+            case 'conditional': {
+                const body = resolveConditional(node, handlers.test);
+                return body ? renderNodes(body.children, handlers) : '';
+            }
+            default: {
+                if (handlers.directive) {
+                    return handlers.directive(node);
+                }
+                const { keyword, range: { from: { line, ch } } } = node.header;
+                throw new Error(`Unable to render the flag "${keyword}" at ${line + 1}:${ch + 1}.`);
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Render the parsed document or block with custom handlers.
+ */
+export function renderDocument(document: IDocumentNode | IBlockNode, handlers: IRenderHandlers): string {
+    return renderNodes(document.children, handlers);
+}
+
+/**
+ * Create the directive handler from the directive renderers of the options.
+ * @param directives the directive renderers
+ * @param evaluator the evaluator
+ * @param createHandlers create the handlers against the context, used to render the blocks of the directive
+ * @param context the current context
+ */
+export function createDirectiveHandler(
+    directives: IRenderOptions['directives'],
+    evaluator: Evaluator,
+    createHandlers: (context: any) => IRenderHandlers,
+    context: any,
+): IRenderHandlers['directive'] {
+    return node => {
+        const { keyword } = node.header;
+        const renderer = directives && directives[keyword] || (DEFAULT_DIRECTIVES.hasOwnProperty(keyword) ? DEFAULT_DIRECTIVES[keyword] : null);
+        if (!renderer) {
+            const { line, ch } = node.header.range.from;
+            throw new Error(`No renderer for the flag "${keyword}" at ${line + 1}:${ch + 1}.`);
+        }
+        return renderer(node, {
+            context,
+            evaluator,
+            renderBlock: (block, blockContext = context) => renderDocument(block, createHandlers(blockContext)),
+        });
+    };
+}
+
+/**
+ * Render the template against the context.
+ * The body of the first passed branch of every `#[if]` chain is kept, and every `#{ }` is substituted with its value.
+ * @param template the template text or the parsed document
+ * @param context the context which the expressions are evaluated against
+ * @param options the render options
+ */
+export function render(template: string | IDocumentNode, context: any, options: IRenderOptions = {}): string {
+    const {
+        evaluator = evaluateExpression,
+        stringify = defaultStringify,
+        parserOptions = DEFAULT_PARSER_OPTIONS,
+        directives,
+    } = options;
+    const document = typeof template === 'string' ? parse(template, parserOptions) : template;
+    const createHandlers = (current: any): IRenderHandlers => {
+        const substitute = (node: IExpressionNode | IBindParameterNode) => stringify(evaluator(node.code, current), node);
+        return {
+            expression: substitute,
+            bindParameter: substitute,
+            test: code => !!evaluator(code, current),
+            directive: createDirectiveHandler(directives, evaluator, createHandlers, current),
+        };
+    };
+    return renderDocument(document, createHandlers(context));
+}
@@ -0,0 +1,118 @@
+import CodeMirror, { EditorConfiguration, Mode } from 'codemirror';
+import { getTokenPatterns, IPattern, ITemplateOptions, ITemplateState } from './index';
+
+declare module 'codemirror' {
+    interface StringStreamConstructor {
+        new (text: string, tabSize?: number): CodeMirror.StringStream;
+    }
+}
+
+export interface ITemplateToken {
+    start: number;
+    end: number;
+    string: string;
+    style: string | null;
+    /**
+     * The active patterns from the outermost one to the innermost one.
+     */
+    patterns: IPattern[];
+    /**
+     * The name of the innermost named pattern, null if there is no one.
+     */
+    name: string | null;
+    /**
+     * The name of the inner mode which is active after the token.
+     */
+    mode: string | null;
+}
+
+function getPatternName(patterns: IPattern[]): string | null {
+    for (let i = patterns.length - 1; i > 0; -- i) {
+        if (patterns[i].name) {
+            return patterns[i].name!;
+        }
+    }
+    return null;
+}
+
+function getInnerModeName(mode: Mode<ITemplateState>, state: ITemplateState): string | null {
+    const inner = CodeMirror.innerMode(mode, state);
+    return inner && inner.mode && inner.mode.name || null;
+}
+
+/**
+ * Tokenize the text with the cxj-template mode without any editor instance.
+ * With the `dist/node` entry, this works in node without dom.
+ * @param text the document
+ * @param options the mode options, the same as the mode option of the editor
+ * @param config the editor configuration passed to the modes
+ * @return the tokens of each line
+ */
+export function tokenize(text: string, options: ITemplateOptions, config: EditorConfiguration = {}): ITemplateToken[][] {
+    const modeConfig: EditorConfiguration = { indentUnit: 2, tabSize: 4, ...config };
+    const mode = CodeMirror.getMode<ITemplateState>(modeConfig, options);
+    const state = CodeMirror.startState(mode) as ITemplateState;
+    return CodeMirror.splitLines(text).map(line => {
+        const tokens: ITemplateToken[] = [];
+        if (!line && mode.blankLine) {
+            mode.blankLine(state);
+        }
+        const stream = new CodeMirror.StringStream(line, modeConfig.tabSize);
+        while (!stream.eol()) {
+            const style = mode.token!(stream, state);
+            const patterns = getTokenPatterns(state);
+            tokens.push({
+                start: stream.start,
+                end: stream.pos,
+                string: stream.current(),
+                style: style || null,
+                patterns,
+                name: getPatternName(patterns),
+                mode: getInnerModeName(mode, state),
+            });
+            stream.start = stream.pos;
+        }
+        return tokens;
+    });
+}
+
+const HTML_ESCAPES: { [ch: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    '\'': '&#39;',
+};
+
+function escapeHtml(text: string) {
+    return text.replace(/[&<>"']/g, ch => HTML_ESCAPES[ch]);
+}
+
+/**
+ * The line styles such as `line-background-cxj-depth-1` are dropped, like the editor moves them to the line.
+ */
+function styleToClassName(style: string) {
+    return style.split(/\s+/).filter(s => !!s && s.indexOf('line-') !== 0).map(s => `cm-${s}`).join(' ');
+}
+
+export interface IHighlightOptions {
+    /**
+     * The class name of the wrapper pre element. Default is `cm-s-default`.
+     */
+    className?: string;
+    config?: EditorConfiguration;
+}
+
+/**
+ * Render the text to static highlighted html.
+ * Every token is wrapped in a span with the css classes the editor would use, so the theme css of codemirror works.
+ */
+export function highlightToHtml(text: string, options: ITemplateOptions, highlightOptions: IHighlightOptions = {}): string {
+    const { className = 'cm-s-default', config } = highlightOptions;
+    const lines = tokenize(text, options, config).map(tokens => tokens.map(({ string, style }) => {
+        const escaped = escapeHtml(string);
+        const classes = style && styleToClassName(style);
+        return classes ? `<span class="${classes}">${escaped}</span>` : escaped;
+    }).join(''));
+    return `<pre class="${escapeHtml(className)}">${lines.join('\n')}</pre>`;
+}
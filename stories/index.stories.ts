@@ -9,9 +9,15 @@ import 'codemirror/addon/fold/foldgutter';
 import 'codemirror/addon/fold/foldgutter.css';
 import 'codemirror/addon/fold/comment-fold';
 import 'codemirror/addon/fold/brace-fold';
+import 'codemirror/addon/lint/lint';
+import 'codemirror/addon/lint/lint.css';
+import 'codemirror/addon/hint/show-hint';
+import 'codemirror/addon/hint/show-hint.css';
+import 'codemirror/addon/hint/sql-hint';
+import 'codemirror/addon/comment/comment';
 import '../src';
 import '../src/index.css'
-import { ITemplateOptions } from '../src';
+import { ITemplateHintOptions, ITemplateOptions } from '../src';
 
 function registerTrigger(onPageInit?: () => void, onPageChange?: () => void) {
   document.addEventListener('DOMContentLoaded', function() {
@@ -39,6 +45,9 @@ export default {
 type OptionsType = {
   [name: string]: CodeMirror.EditorConfiguration & {
     mode: ITemplateOptions,
+    lint?: boolean,
+    hintOptions?: ITemplateHintOptions,
+    matchTemplateDelimiters?: boolean,
     content: string
   },
 }
@@ -71,7 +80,24 @@ const Options: OptionsType = {
     autoCloseBrackets: true,
     autoCloseTags: true,
     foldGutter: true,
-    gutters: ["CodeMirror-linenumbers", "CodeMirror-foldgutter"],
+    lint: true,
+    matchTemplateDelimiters: true,
+    extraKeys: {
+      'Ctrl-Space': 'autocomplete',
+      'Ctrl-M': 'goToMatchingTemplateDelimiter',
+      'Alt-Down': 'goToNextTemplateBranch',
+      'Alt-Up': 'goToPreviousTemplateBranch',
+      'Ctrl-/': 'toggleTemplateComment',
+      'Shift-Ctrl-/': 'toggleTemplateBlockComment',
+      'Shift-Alt-F': 'formatTemplate',
+    },
+    hintOptions: {
+      schema: {
+        domainInfo: { type: true },
+        domain: true,
+      },
+    },
+    gutters: ["CodeMirror-linenumbers", "CodeMirror-foldgutter", "CodeMirror-lint-markers"],
     content: CONTENT,
   },
 };
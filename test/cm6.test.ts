@@ -0,0 +1,87 @@
+// The node entry shims the dom before CodeMirror 5 is loaded.
+import '../src/node';
+import assert from 'assert';
+import { ITemplateOptions, template, templateTags } from '../src/cm6';
+import { ensureSyntaxTree, foldable, getIndentation, indentUnit } from '@codemirror/language';
+import { EditorState } from '@codemirror/state';
+import { highlightTree, tagHighlighter, tags } from '@lezer/highlight';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'text/x-mysql', codeMode: 'groovy' };
+
+function createState(doc: string) {
+    const support = template(options);
+    return { support, state: EditorState.create({ doc, extensions: [support] }) };
+}
+
+function highlight(state: EditorState, highlighter: ReturnType<typeof tagHighlighter>) {
+    const highlighted: string[][] = [];
+    highlightTree(ensureSyntaxTree(state, state.doc.length, 5000)!, highlighter, (from, to, classes) => {
+        highlighted.push([state.doc.sliceString(from, to), classes]);
+    });
+    return highlighted;
+}
+
+describe('template', () => {
+    const { support, state } = createState('select #{ a.b }\n#[if][#{ c }][\n  d\n]');
+
+    it('maps the styles to the highlighting tags', () => {
+        const highlighter = tagHighlighter([
+            { tag: templateTags.code, class: 'code' },
+            { tag: templateTags.template, class: 'template' },
+            { tag: templateTags.flag, class: 'flag' },
+            { tag: tags.keyword, class: 'keyword' },
+            { tag: tags.variableName, class: 'variable' },
+            { tag: tags.propertyName, class: 'property' },
+        ]);
+        assert.deepStrictEqual(highlight(state, highlighter).slice(0, 8), [
+            ['select', 'keyword'],
+            ['#{ ', 'code'],
+            ['a', 'variable'],
+            ['b', 'property'],
+            ['}', 'code'],
+            ['#[', 'template'],
+            ['if', 'keyword flag'],
+            ['][', 'template'],
+        ]);
+    });
+
+    it('falls back to the parent tags', () => {
+        const highlighter = tagHighlighter([{ tag: tags.bracket, class: 'bracket' }, { tag: tags.keyword, class: 'keyword' }]);
+        assert.deepStrictEqual(highlight(state, highlighter).slice(1, 3), [['#{ ', 'bracket bracket'], ['}', 'bracket bracket']]);
+        assert.deepStrictEqual(highlight(state, highlighter)[4], ['if', 'keyword keyword']);
+    });
+
+    it('folds the flag chains and the blocks', () => {
+        const line = state.doc.line(2);
+        assert.deepStrictEqual(foldable(state, line.from, line.to), { from: line.from + 5, to: state.doc.length });
+        assert.strictEqual(foldable(state, 0, state.doc.line(1).to), null);
+    });
+
+    it('indents the lines of the blocks', () => {
+        assert.strictEqual(getIndentation(state, state.doc.line(3).from), 2);
+    });
+
+    it('indents by the unit of each editor sharing the language', () => {
+        const doc = '#[if][#{ c }][\n  d\n]';
+        const wide = EditorState.create({ doc, extensions: [support, indentUnit.of('    ')] });
+        const narrow = EditorState.create({ doc, extensions: [support] });
+        assert.strictEqual(getIndentation(wide, wide.doc.line(2).from), 4);
+        assert.strictEqual(getIndentation(narrow, narrow.doc.line(2).from), 2);
+        assert.strictEqual(getIndentation(wide, wide.doc.line(2).from), 4);
+    });
+
+    it('tells the patterns at the position', () => {
+        const names = (pos: number) => support.patternsAt(state, pos).map(pattern => pattern.name);
+        assert.deepStrictEqual(names(3), ['cxj-template']);
+        assert.deepStrictEqual(names(7), ['cxj-template']);
+        assert.deepStrictEqual(names(11), ['cxj-template', 'code']);
+        assert.deepStrictEqual(names(state.doc.line(3).from), ['cxj-template', 'template']);
+    });
+
+    it('comments with the inner mode at the position', () => {
+        assert.strictEqual(state.languageDataAt<{ line: string }>('commentTokens', 11)[0].line, '//');
+        assert.strictEqual(state.languageDataAt<{ line: string }>('commentTokens', 3)[0].line, '#');
+    });
+});
@@ -0,0 +1,48 @@
+import assert from 'assert';
+import { getCommentSyntax, ITemplateOptions, toggleTemplateBlockComment, toggleTemplateComment } from '../src/node';
+import { createEditor } from './editor';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'sql', codeMode: null };
+
+describe('getCommentSyntax', () => {
+    const cm = createEditor('select a\nwhere #{ b }\n#[if][#{ c }][ d ]', options);
+
+    it('comments the code with the code mode', () => {
+        assert.strictEqual(getCommentSyntax(cm, { line: 1, ch: 9 }, { line: 1, ch: 10 }), 'code');
+    });
+
+    it('comments the lines without any template construct with the base mode', () => {
+        assert.strictEqual(getCommentSyntax(cm, { line: 0, ch: 0 }, { line: 0, ch: 3 }), 'base');
+    });
+
+    it('comments the lines with a template construct with the template comment', () => {
+        assert.strictEqual(getCommentSyntax(cm, { line: 1, ch: 0 }, { line: 1, ch: 3 }), 'template');
+        assert.strictEqual(getCommentSyntax(cm, { line: 2, ch: 15 }, { line: 2, ch: 16 }), 'template');
+    });
+});
+
+describe('toggleTemplateBlockComment', () => {
+    it('comments the line of the cursor and uncomments it back', () => {
+        const cm = createEditor('  a #{ b } c', options, { line: 0, ch: 5 });
+        toggleTemplateBlockComment(cm);
+        assert.strictEqual(cm.getValue(), '  #--a #{ b } c--#');
+        toggleTemplateBlockComment(cm);
+        assert.strictEqual(cm.getValue(), '  a #{ b } c');
+    });
+
+    it('expands the selection so the comment does not cut any construct', () => {
+        const cm = createEditor('a #[if][#{ b }][ c ] d', options);
+        cm.setSelection({ line: 0, ch: 0 }, { line: 0, ch: 10 });
+        toggleTemplateBlockComment(cm);
+        assert.strictEqual(cm.getValue(), '#--a #[if][#{ b }][ c ]--# d');
+    });
+});
+
+describe('toggleTemplateComment', () => {
+    it('falls back to the template comment without the comment addon', () => {
+        const cm = createEditor('select a', options, { line: 0, ch: 1 });
+        toggleTemplateComment(cm);
+        assert.strictEqual(cm.getValue(), '#--select a--#');
+    });
+});
@@ -0,0 +1,57 @@
+import assert from 'assert';
+import { compile, getParameterValues } from '../src/node';
+
+describe('compile', () => {
+    it('turns the bind parameters into positional placeholders', () => {
+        const { sql, parameters } = compile('select * from t where a = #{: a.id } and b = #{: b }');
+        assert.strictEqual(sql, 'select * from t where a = ? and b = ?');
+        assert.deepStrictEqual(parameters.map(({ name, code }) => [name, code]), [['1', 'a.id'], ['2', 'b']]);
+        assert.strictEqual(parameters[0].node.type, 'bind-parameter');
+    });
+
+    it('names the parameters by their code with named placeholders', () => {
+        const { sql, parameters } = compile('#{: a.id } #{: b } #{: a.id }', {}, { placeholder: 'named' });
+        assert.strictEqual(sql, ':a_id :b :a_id');
+        assert.deepStrictEqual(parameters.map(({ name, code }) => [name, code]), [['a_id', 'a.id'], ['b', 'b']]);
+    });
+
+    it('keeps the names unique', () => {
+        const { sql, parameters } = compile('#{: a.b } #{: a_b } #{: 1 }', {}, { placeholder: 'named' });
+        assert.strictEqual(sql, ':a_b :a_b_2 :p3');
+        assert.deepStrictEqual(parameters.map(({ name }) => name), ['a_b', 'a_b_2', 'p3']);
+        const named = compile('#{: a } #{: b }', {}, { placeholder: 'named', parameterName: () => 'x' });
+        assert.strictEqual(named.sql, ':x :x_2');
+    });
+
+    it('inlines the expressions', () => {
+        assert.strictEqual(compile('select #{ column } from t', { column: 'name' }).sql, 'select name from t');
+    });
+
+    it('chooses the branches against the context', () => {
+        const template = 'select * from t #[if][#{ a }][ where a = #{: a } ][ where b = #{: b } ]';
+        const chosen = compile(template, { a: 1 });
+        assert.strictEqual(chosen.sql, 'select * from t  where a = ? ');
+        assert.deepStrictEqual(chosen.parameters.map(({ code }) => code), ['a']);
+        assert.strictEqual(compile(template, {}).sql, 'select * from t  where b = ? ');
+    });
+
+    it('chooses the branches with the resolver of the options', () => {
+        const codes: string[] = [];
+        const { sql } = compile('#[if][#{ a }][ x ][#{ b }][ y ][ z ]', { a: true }, {
+            resolveBranch: code => {
+                codes.push(code.trim());
+                return code.trim() === 'b';
+            },
+        });
+        assert.strictEqual(sql, ' y ');
+        assert.deepStrictEqual(codes, ['a', 'b']);
+    });
+});
+
+describe('getParameterValues', () => {
+    it('evaluates the parameters in order', () => {
+        const { parameters } = compile('#{: a.id }, #{: b }');
+        assert.deepStrictEqual(getParameterValues(parameters, { a: { id: 1 }, b: 2 }), [1, 2]);
+        assert.deepStrictEqual(getParameterValues(parameters, {}, code => code.toUpperCase()), ['A.ID', 'B']);
+    });
+});
@@ -0,0 +1,87 @@
+import assert from 'assert';
+import { ITemplateConfig, loadTemplateConfig, tokenize } from '../src/node';
+
+function describeLine(text: string, config: ITemplateConfig) {
+    return tokenize(text, loadTemplateConfig(config))[0].map(({ string, name }) => `${string}:${name}`);
+}
+
+function fails(config: any, message: string) {
+    assert.throws(() => loadTemplateConfig(config), { message: `Invalid template config at ${message}` });
+}
+
+describe('loadTemplateConfig', () => {
+    it('loads the patterns and keeps the cycles of the ids', () => {
+        const config: ITemplateConfig = {
+            name: 'cxj-template',
+            children: ['paren'],
+            patterns: {
+                paren: { name: 'paren', open: '(', close: ')', children: ['paren', 'quote'] },
+                quote: { name: 'quote', open: { regExp: '\'' }, close: '\'', escape: '\\' },
+            },
+        };
+        const options = loadTemplateConfig(JSON.stringify(config));
+        const [paren] = options.children!;
+        assert.strictEqual(paren.children![0], paren);
+        assert.ok(paren.children![1].open instanceof RegExp);
+        assert.strictEqual(options.codeMode, null);
+        assert.strictEqual(paren.mode, null);
+        assert.ok(!paren.hasOwnProperty('indent'));
+        assert.deepStrictEqual(describeLine('a ((b) \')\')', config).slice(-4), ['\':quote', '):quote', '\':quote', '):paren']);
+    });
+
+    it('uses the default patterns without children', () => {
+        const options = loadTemplateConfig({ name: 'cxj-template', mode: 'sql', codeMode: 'groovy', delimiters: { codeOpen: '${' } });
+        assert.strictEqual(options.children, undefined);
+        assert.deepStrictEqual(options.delimiters, { codeOpen: '${' });
+        assert.deepStrictEqual(describeLine('a ${ b }', { name: 'cxj-template', delimiters: { codeOpen: '${' } }).slice(1, 3), ['${ :code', 'b :code']);
+    });
+
+    it('opens the patterns with openWhen only after the patterns named', () => {
+        const config: ITemplateConfig = {
+            name: 'cxj-template',
+            children: [
+                { name: 'tag', open: '<', close: '>' },
+                { name: 'body', open: '{', close: '}', openWhen: { after: ['tag'] } },
+            ],
+        };
+        assert.deepStrictEqual(describeLine('<a> {b} {c}', config), ['<:tag', 'a:tag', '>:tag', ' :null', '{:body', 'b:body', '}:body', ' {c}:null']);
+        assert.deepStrictEqual(describeLine('<a>x{b}', config), ['<:tag', 'a:tag', '>:tag', 'x{b}:null']);
+    });
+
+    it('tells the path of the invalid value', () => {
+        fails({ name: 'other' }, 'config: expected an object with the name "cxj-template".');
+        fails({ name: 'cxj-template', colour: 'red' }, 'config: unknown property "colour".');
+        fails({ name: 'cxj-template', children: [{ open: { regExp: '(' } }] }, 'config.children[0].open: Invalid regular expression: /(/: Unterminated group');
+        fails({ name: 'cxj-template', children: ['missing'] }, 'config.children[0]: no pattern with the id "missing".');
+        fails({ name: 'cxj-template', patterns: { a: { indent: 'yes' } } }, 'config.patterns.a.indent: expected a boolean.');
+        fails({ name: 'cxj-template', children: [{ patternStyles: ['a'] }] }, 'config.children[0].patternStyles: expected a pair of strings or nulls.');
+        fails({ name: 'cxj-template', children: [{ openWhen: { after: 'a' } }] }, 'config.children[0].openWhen.after: expected an array of strings.');
+        fails({ name: 'cxj-template', flags: {} }, 'config.flags: expected an array.');
+    });
+
+    it('validates the flags, the delimiters and the modes', () => {
+        fails({ name: 'cxj-template', flags: [{ keyword: ' ', blocks: [] }] }, 'config.flags[0].keyword: expected a keyword.');
+        fails({ name: 'cxj-template', flags: [{ keyword: 'each', blocks: ['code', 'text'] }] }, 'config.flags[0].blocks: expected an array of code or template.');
+        fails({ name: 'cxj-template', flags: [{ keyword: 'each', blocks: [], optional: 'else' }] }, 'config.flags[0].optional: expected code or template.');
+        fails({ name: 'cxj-template', flags: [{ keyword: 'each', blocks: [], arity: 2 }] }, 'config.flags[0]: unknown property "arity".');
+        fails({ name: 'cxj-template', delimiters: { codeOpen: '' } }, 'config.delimiters.codeOpen: expected a non-empty string.');
+        fails({ name: 'cxj-template', delimiters: { codeClose: null } }, 'config.delimiters.codeClose: expected a non-empty string.');
+        fails({ name: 'cxj-template', delimiters: { brackets: [['(']] } }, 'config.delimiters.brackets: expected an array of [open, close] pairs.');
+        fails({ name: 'cxj-template', delimiters: { quoteEscape: 'twice' } }, 'config.delimiters.quoteEscape: expected one of backslash, double, none.');
+        fails({ name: 'cxj-template', delimiters: { open: '#{' } }, 'config.delimiters: unknown property "open".');
+        fails({ name: 'cxj-template', modes: { pg: 1 } }, 'config.modes.pg: expected a mode name or a mode spec object.');
+        fails({ name: 'cxj-template', codeMode: true }, 'config.codeMode: expected a mode name or a mode spec object.');
+    });
+
+    it('keeps the valid flags, delimiters and modes', () => {
+        const options = loadTemplateConfig({
+            name: 'cxj-template',
+            flags: [{ keyword: 'each', blocks: ['code'], repeat: ['template'], conditional: false }],
+            delimiters: { commentOpen: null, brackets: [['(', ')']], quoteEscape: 'double' },
+            modes: { pg: { name: 'text/x-pgsql' }, js: 'javascript' },
+        });
+        assert.deepStrictEqual(options.flags, [{ keyword: 'each', blocks: ['code'], repeat: ['template'], conditional: false }]);
+        assert.deepStrictEqual(options.delimiters, { commentOpen: null, brackets: [['(', ')']], quoteEscape: 'double' });
+        assert.deepStrictEqual(options.modes, { pg: { name: 'text/x-pgsql' }, js: 'javascript' });
+    });
+});
@@ -0,0 +1,55 @@
+import assert from 'assert';
+import { getTemplateContextAt, ITemplateOptions, ITemplateRegion } from '../src/node';
+import { createEditor } from './editor';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'sql', codeMode: 'groovy' };
+const text = 'select #{ a }\n#[if][#{ b }][ c ]';
+
+function contextAt(line: number, ch: number) {
+    return getTemplateContextAt(createEditor(text, options), { line, ch })!;
+}
+
+function describeRegion({ pattern, open, close }: ITemplateRegion) {
+    const describeRange = ({ from, to }: ITemplateRegion['open']) => `${from.line}:${from.ch}-${to.line}:${to.ch}`;
+    return `${pattern.name} ${describeRange(open)} ${close ? describeRange(close) : 'unclosed'}`;
+}
+
+describe('getTemplateContextAt', () => {
+    it('reads the base mode outside of the patterns', () => {
+        const context = contextAt(0, 3);
+        assert.deepStrictEqual(context.patterns.map(pattern => pattern.name), ['cxj-template']);
+        assert.deepStrictEqual(context.regions, []);
+        assert.strictEqual(context.modeName, 'sql');
+        assert.strictEqual(context.branch, null);
+    });
+
+    it('reads the regions and the inner mode of the code', () => {
+        const context = contextAt(0, 10);
+        assert.deepStrictEqual(context.patterns.map(pattern => pattern.name), ['cxj-template', 'code']);
+        assert.deepStrictEqual(context.regions.map(describeRegion), ['code 0:7-0:10 0:12-0:13']);
+        assert.strictEqual(context.modeName, 'groovy');
+    });
+
+    it('puts the delimiter in the pattern outside of it', () => {
+        const context = contextAt(0, 8);
+        assert.deepStrictEqual(context.patterns.map(pattern => pattern.name), ['cxj-template']);
+        assert.strictEqual(context.modeName, 'sql');
+    });
+
+    it('reads the branch of the if chain', () => {
+        const condition = contextAt(1, 10);
+        assert.deepStrictEqual(condition.patterns.map(pattern => pattern.name), ['cxj-template', 'template', 'code']);
+        assert.strictEqual(condition.branch!.index, 0);
+        const body = contextAt(1, 15);
+        assert.strictEqual(body.modeName, 'sql');
+        assert.deepStrictEqual(body.regions.map(describeRegion), ['template 1:13-1:14 1:17-1:18']);
+        assert.strictEqual(body.branch!.node.header.keyword, 'if');
+    });
+
+    it('reads nothing in an editor of another mode', () => {
+        const cm = createEditor('a', { ...options, name: 'sql' } as any);
+        assert.strictEqual(getTemplateContextAt(cm, { line: 0, ch: 0 }), null);
+    });
+});
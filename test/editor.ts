@@ -0,0 +1,83 @@
+import { ITemplateOptions } from '../src/node';
+import CodeMirror, { Editor, Position } from 'codemirror';
+
+/**
+ * A headless stand-in of the editor, with the members the helpers and the commands use.
+ * The tokens are read with the mode from the start of the document, as the editor does without any cached state.
+ */
+export function createEditor(text: string, options: ITemplateOptions, cursor: Position = { line: 0, ch: 0 }): Editor {
+    const config: { [name: string]: any } = { mode: options, indentUnit: 2, tabSize: 4 };
+    const mode = CodeMirror.getMode(config, options);
+    let lines = CodeMirror.splitLines(text);
+    let generation = 1;
+    let anchor = cursor;
+    let head = cursor;
+
+    function indexFromPos({ line, ch }: Position) {
+        let index = ch;
+        for (let i = 0; i < line; ++ i) {
+            index += lines[i].length + 1;
+        }
+        return index;
+    }
+
+    function posFromIndex(index: number): Position {
+        let line = 0;
+        while (line < lines.length - 1 && index > lines[line].length) {
+            index -= lines[line].length + 1;
+            ++ line;
+        }
+        return { line, ch: index };
+    }
+
+    function getTokenAt({ line, ch }: Position) {
+        const state = CodeMirror.startState(mode);
+        for (let i = 0; i < line; ++ i) {
+            if (!lines[i] && mode.blankLine) {
+                mode.blankLine(state);
+            }
+            const lineStream = new CodeMirror.StringStream(lines[i], config.tabSize);
+            while (!lineStream.eol()) {
+                mode.token!(lineStream, state);
+                lineStream.start = lineStream.pos;
+            }
+        }
+        const stream = new CodeMirror.StringStream(lines[line], config.tabSize);
+        let type: string | null = null;
+        while (stream.pos < ch && !stream.eol()) {
+            stream.start = stream.pos;
+            type = mode.token!(stream, state) || null;
+        }
+        return { start: stream.start, end: stream.pos, string: stream.current(), type, state };
+    }
+
+    const editor = {
+        state: {},
+        getOption: (name: string) => config[name],
+        getMode: () => mode,
+        changeGeneration: () => generation,
+        getValue: () => lines.join('\n'),
+        getLine: (line: number) => lines[line],
+        lastLine: () => lines.length - 1,
+        getCursor: () => head,
+        setCursor(pos: Position) {
+            anchor = head = pos;
+        },
+        setSelection(from: Position, to: Position = from) {
+            anchor = from;
+            head = to;
+        },
+        listSelections: () => [{ anchor, head }],
+        indexFromPos,
+        posFromIndex,
+        getTokenAt,
+        getRange: (from: Position, to: Position) => lines.join('\n').slice(indexFromPos(from), indexFromPos(to)),
+        replaceRange(replacement: string, from: Position, to: Position = from) {
+            const value = lines.join('\n');
+            lines = CodeMirror.splitLines(value.slice(0, indexFromPos(from)) + replacement + value.slice(indexFromPos(to)));
+            ++ generation;
+        },
+        operation: (f: () => void) => f(),
+    };
+    return editor as unknown as Editor;
+}
@@ -0,0 +1,72 @@
+import assert from 'assert';
+import { IExpressionNode, IPattern, ITemplateOptions, ITemplateToken, ITextNode, parse, render, tokenize } from '../src/node';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'sql', codeMode: 'groovy' };
+const escaped: ITemplateOptions = { ...options, delimiters: { quoteEscape: 'double', textEscape: '\\' } };
+
+function describeTokens(tokens: ITemplateToken[]) {
+    return tokens.map(({ string, style, name }) => [string, !!style && style.split(' ').indexOf('cxj-escape') !== -1, name]);
+}
+
+function createOptions(pattern: Partial<IPattern>): ITemplateOptions {
+    return {
+        name: 'cxj-template',
+        mode: null,
+        codeMode: null,
+        children: [{ name: 'angle', mode: null, open: '<', close: '>', escape: '!', escapeStyle: 'escape', ...pattern }],
+    };
+}
+
+describe('escapes', () => {
+    it('escapes the quotes with a backslash by default', () => {
+        const tokens = describeTokens(tokenize("'it\\'s #{ a }' b", options)[0]);
+        assert.deepStrictEqual(tokens.filter(([, escape]) => escape).map(([string]) => string), ['\\', '\'']);
+        assert.deepStrictEqual(tokens[tokens.length - 1], [' b', false, null]);
+    });
+
+    it('escapes the quotes by doubling them with quoteEscape', () => {
+        const tokens = describeTokens(tokenize("'it''s' b", escaped)[0]);
+        assert.deepStrictEqual(tokens.slice(0, 5), [
+            ['\'', false, 'single-quote'],
+            ['it', false, 'single-quote'],
+            ['\'\'', true, 'single-quote'],
+            ['s', false, 'single-quote'],
+            ['\'', false, 'single-quote'],
+        ]);
+    });
+
+    it('escapes the delimiters in the text with textEscape', () => {
+        const { children } = parse('a \\#{ b } #{ c }', escaped);
+        assert.deepStrictEqual(children.map(child => child.type), ['text', 'expression']);
+        assert.strictEqual((children[0] as ITextNode).text, 'a #{ b } ');
+        assert.strictEqual((children[1] as IExpressionNode).code, 'c ');
+        const tokens = describeTokens(tokenize('\\#{ a }', escaped)[0]);
+        assert.deepStrictEqual(tokens[0], ['\\', true, null]);
+        assert.ok(tokens.every(([, , name]) => name === null));
+    });
+
+    it('renders the escaped delimiters as literal ones', () => {
+        const text = "select 'it''s', '\\#{name}' \\#{name} #{name}";
+        assert.strictEqual(render(text, { name: 'x' }, { parserOptions: escaped }), "select 'it''s', '\\#{name}' #{name} x");
+    });
+
+    it('does not escape the delimiters in the text by default', () => {
+        const { children } = parse('a \\#{ b }', options);
+        assert.deepStrictEqual(children.map(child => child.type), ['text', 'expression']);
+    });
+
+    it('escapes the close delimiter after an odd run of the escape', () => {
+        const odd = tokenize('<a!>b> c', createOptions({ escapeStrategy: 'backslash' }))[0];
+        assert.deepStrictEqual(odd.map(({ string, name }) => [string, name]), [['<', 'angle'], ['a', 'angle'], ['!>', 'angle'], ['b', 'angle'], ['>', 'angle'], [' c', null]]);
+        assert.ok(odd[2].style!.split(' ').indexOf('escape') !== -1);
+        const even = tokenize('<a!!>b> c', createOptions({ escapeStrategy: 'backslash' }))[0];
+        assert.deepStrictEqual(even.map(({ string, name }) => [string, name]), [['<', 'angle'], ['a', 'angle'], ['!!', 'angle'], ['>', 'angle'], ['b> c', null]]);
+    });
+
+    it('escapes nothing with the none strategy', () => {
+        const tokens = tokenize('<a!>b> c', createOptions({ escapeStrategy: 'none' }))[0];
+        assert.deepStrictEqual(tokens.map(({ string, name }) => [string, name]), [['<', 'angle'], ['a!', 'angle'], ['>', 'angle'], ['b> c', null]]);
+    });
+});
@@ -0,0 +1,28 @@
+import assert from 'assert';
+import { getFoldRanges, IFoldRange, parse } from '../src/node';
+
+function describeRanges(ranges: IFoldRange[]) {
+    const described: string[] = [];
+    ranges.forEach(({ from, to }, line) => described.push(`${line}: ${from.line}:${from.ch}-${to.line}:${to.ch}`));
+    return described;
+}
+
+describe('getFoldRanges', () => {
+    it('folds the flag chain from its header and every block by its content', () => {
+        const text = '#[if][#{ a }][\n  b\n][\n  c\n]';
+        assert.deepStrictEqual(describeRanges(getFoldRanges(parse(text))), ['0: 0:5-4:1', '2: 2:2-4:0']);
+    });
+
+    it('folds the multi-line code regions', () => {
+        assert.deepStrictEqual(describeRanges(getFoldRanges(parse('a #{\n  b\n} c'))), ['0: 0:4-2:0']);
+    });
+
+    it('keeps the outermost region starting on a line', () => {
+        const text = 'a [\n] #[if][#{\n  a\n}][\n  b\n]';
+        assert.deepStrictEqual(describeRanges(getFoldRanges(parse(text))), ['1: 1:7-5:1', '3: 3:3-5:0']);
+    });
+
+    it('folds nothing on a single line', () => {
+        assert.deepStrictEqual(getFoldRanges(parse('#[if][#{ a }][ b ] #{ c }')), []);
+    });
+});
@@ -0,0 +1,60 @@
+import assert from 'assert';
+import { format, formatTemplate, ITemplateOptions, MUSTACHE_DELIMITERS } from '../src/node';
+import { createEditor } from './editor';
+
+const template = 'select *\nfrom t\n#[if][ #{a.id}  ][and id = #{:a.id}][#{ b }][\nand b\n    or c][ and d ]';
+
+describe('format', () => {
+    it('puts the blocks on their own lines and normalizes the delimiters', () => {
+        assert.strictEqual(format(template), [
+            'select *',
+            'from t',
+            '#[if][#{ a.id }][',
+            '  and id = #{: a.id }',
+            '][#{ b }][',
+            '  and b',
+            '      or c',
+            '][',
+            '  and d',
+            ']',
+        ].join('\n'));
+    });
+
+    it('formats the formatted template to itself', () => {
+        const formatted = format(template);
+        assert.strictEqual(format(formatted), formatted);
+        assert.strictEqual(format(formatted, { indent: '    ' }), format(template, { indent: '    ' }));
+    });
+
+    it('indents the nested chains with the line of their header', () => {
+        assert.strictEqual(format('a\n  b #[if][#{ c }][ d ]'), 'a\n  b #[if][#{ c }][\n    d\n  ]');
+    });
+
+    it('formats the code with formatCode', () => {
+        assert.strictEqual(format('#{a+1} #{:  b}', { formatCode: code => code.replace(/\+/g, ' + ') }), '#{ a + 1 } #{: b }');
+    });
+
+    it('keeps the delimiters and the code of the regions of several lines', () => {
+        assert.strictEqual(format('#[if][#{a}][#{:  b\n  .c}]'), '#[if][#{ a }][\n  #{:  b\n    .c}\n]');
+    });
+
+    it('pads the headers whose delimiter does not end with a bracket', () => {
+        const parserOptions: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null, delimiters: MUSTACHE_DELIMITERS };
+        assert.strictEqual(format('{%if%}[{{a}}][b]', { parserOptions }), '{% if %}[{{ a }}][\n  b\n]');
+    });
+
+    it('keeps the constructs which are never closed', () => {
+        assert.strictEqual(format('#[if][#{ a }][ b'), '#[if][#{ a }][ b');
+        assert.strictEqual(format('a #{b'), 'a #{b');
+    });
+});
+
+describe('formatTemplate', () => {
+    it('formats the document of the editor with its indentation', () => {
+        const options: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null };
+        const cm = createEditor('#[if][#{a}][b]', options, { line: 0, ch: 3 });
+        formatTemplate(cm);
+        assert.strictEqual(cm.getValue(), '#[if][#{ a }][\n  b\n]');
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 3 });
+    });
+});
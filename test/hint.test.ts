@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { createFlagSnippet, ITemplateHint, ITemplateOptions, MUSTACHE_DELIMITERS, templateHint } from '../src/node';
+import { createEditor } from './editor';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = {
+    name: 'cxj-template',
+    mode: 'sql',
+    codeMode: null,
+    flags: [{ keyword: 'each', blocks: ['code', 'template'] }],
+};
+
+function hintAt(text: string, schema = {}) {
+    const lines = text.split('\n');
+    const cursor = { line: lines.length - 1, ch: lines[lines.length - 1].length };
+    return templateHint(createEditor(text, options, cursor), { schema })!;
+}
+
+describe('createFlagSnippet', () => {
+    it('expands the blocks of the flag and puts the cursor in the first code', () => {
+        assert.deepStrictEqual(createFlagSnippet({ keyword: 'if', blocks: ['code', 'template'] }), {
+            text: '#[if][#{}][\n]',
+            displayText: '#[if][#{ }][ ]',
+            keyword: 'if',
+            cursor: 8,
+        });
+        assert.strictEqual(createFlagSnippet({ keyword: 'lang', blocks: ['template'] }).cursor, 9);
+    });
+
+    it('follows the delimiters', () => {
+        const { text, cursor } = createFlagSnippet({ keyword: 'if', blocks: ['code', 'template'] }, MUSTACHE_DELIMITERS);
+        assert.strictEqual(text, '{%if%}[{{}}][\n]');
+        assert.strictEqual(cursor, 9);
+    });
+});
+
+describe('templateHint', () => {
+    it('suggests the flag keywords in the header', () => {
+        const { list, from, to } = hintAt('a #[e');
+        assert.deepStrictEqual(list, ['each']);
+        assert.deepStrictEqual([from, to], [{ line: 0, ch: 4 }, { line: 0, ch: 5 }]);
+    });
+
+    it('suggests the variables of the schema in the code', () => {
+        const schema = { a: { id: true, type: true, name: true }, b: true };
+        assert.deepStrictEqual(hintAt('#{ a.', schema).list, ['id', 'type', 'name']);
+        const { list, from } = hintAt('#{ a.t', schema);
+        assert.deepStrictEqual(list, ['type']);
+        assert.deepStrictEqual(from, { line: 0, ch: 5 });
+        assert.deepStrictEqual(hintAt('#{ c.', schema).list, []);
+    });
+
+    it('suggests the snippets of the flags in the text and expands the picked one', () => {
+        const cm = createEditor('select\ni', options, { line: 1, ch: 1 });
+        const hints = templateHint(cm)!;
+        const [snippet] = hints.list as ITemplateHint[];
+        assert.strictEqual(hints.list.length, 1);
+        assert.strictEqual(snippet.displayText, '#[if][#{ }][ ]');
+        snippet.hint!(cm, hints, snippet);
+        assert.strictEqual(cm.getValue(), 'select\n#[if][#{}][\n]');
+        assert.deepStrictEqual(cm.getCursor(), { line: 1, ch: 8 });
+    });
+});
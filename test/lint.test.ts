@@ -0,0 +1,65 @@
+import assert from 'assert';
+import { DOLLAR_DELIMITERS, ITemplateLintAnnotation, ITemplateOptions, lintTemplate, MUSTACHE_DELIMITERS } from '../src/node';
+
+function describeAnnotations(annotations: ITemplateLintAnnotation[]) {
+    return annotations.map(({ from, to, message, severity }) => [`${from.line}:${from.ch}-${to.line}:${to.ch}`, message, severity]);
+}
+
+describe('lintTemplate', () => {
+    it('reports the unclosed delimiters', () => {
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('a\n #{b')), [['1:1-1:3', 'Unclosed "#{".', 'error']]);
+    });
+
+    it('warns about the stray closers of the text', () => {
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('(a)] #{ f()) }')), [['0:3-0:4', 'Stray "]" which closes nothing.', 'warning']]);
+    });
+
+    it('reports the unknown flags', () => {
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[each][#{ a }][ b ]')), [['0:0-0:7', 'Unknown flag "each".', 'error']]);
+    });
+
+    it('reports the flags followed by a wrong number of blocks', () => {
+        const options: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null, flags: [{ keyword: 'each', blocks: ['code', 'template'] }] };
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[each][#{ a }]', options)), [['0:0-0:7', 'The "#[each]" misses a template block after the code block.', 'error']]);
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[each][ a ][ b ]', options)), [
+            ['0:7-0:12', 'The block at 1:8 should contain exactly one code expression.', 'error'],
+        ]);
+    });
+
+    it('reports the malformed if chains', () => {
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[if] a')), [['0:0-0:5', 'The "#[if]" misses a code block and a template block.', 'error']]);
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[if][#{ a }]')), [['0:0-0:5', 'The "#[if]" misses a template block after the code block.', 'error']]);
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[if][ a ][ b ]')), [
+            ['0:5-0:10', 'The block at 1:6 should contain exactly one code expression.', 'error'],
+        ]);
+    });
+
+    it('writes the flags with the delimiters of the options', () => {
+        const dollar: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null, delimiters: DOLLAR_DELIMITERS };
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('$[if][${ a }]', dollar)), [['0:0-0:5', 'The "$[if]" misses a template block after the code block.', 'error']]);
+        const mustache: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null, delimiters: MUSTACHE_DELIMITERS };
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('{%if%} a\n{{ b', mustache)), [
+            ['0:0-0:6', 'The "{%if%}" misses a code block and a template block.', 'error'],
+            ['1:0-1:3', 'Unclosed "{{ ".', 'error'],
+        ]);
+    });
+
+    it('reports the brackets of the text left unclosed in every block', () => {
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('(a #{ f() } [ b')), [
+            ['0:0-0:1', 'Unclosed "(".', 'error'],
+            ['0:12-0:13', 'Unclosed "[".', 'error'],
+        ]);
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#[if][#{ b }][ ( ] (')), [
+            ['0:15-0:16', 'Unclosed "(".', 'error'],
+            ['0:19-0:20', 'Unclosed "(".', 'error'],
+        ]);
+    });
+
+    it('reports the empty expressions and sorts the annotations', () => {
+        assert.deepStrictEqual(describeAnnotations(lintTemplate('#{ }\n a ] #{: }')), [
+            ['0:0-0:4', 'Empty expression.', 'error'],
+            ['1:3-1:4', 'Stray "]" which closes nothing.', 'warning'],
+            ['1:5-1:10', 'Empty expression.', 'error'],
+        ]);
+    });
+});
@@ -0,0 +1,103 @@
+import assert from 'assert';
+import {
+    findBranchAt,
+    findDelimiterAt,
+    findDelimiters,
+    goToMatchingTemplateDelimiter,
+    goToNextTemplateBranch,
+    goToPreviousTemplateBranch,
+    ITemplateDelimiter,
+    ITemplateOptions,
+    parse,
+} from '../src/node';
+import { createEditor } from './editor';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null };
+
+function describeDelimiter({ from, to, open, pattern }: ITemplateDelimiter) {
+    return `${open ? 'open' : 'close'} ${pattern.name} ${from.line}:${from.ch}-${to.line}:${to.ch}`;
+}
+
+describe('findDelimiters', () => {
+    it('pairs the delimiters in the order of the document', () => {
+        const delimiters = findDelimiters('a #{ f(b) }\n#[if][ c ]', options);
+        assert.deepStrictEqual(delimiters.map(describeDelimiter), [
+            'open code 0:2-0:5',
+            'open parenthesis 0:6-0:7',
+            'close parenthesis 0:8-0:9',
+            'close code 0:10-0:11',
+            'open template-header 1:0-1:2',
+            'close template-header 1:4-1:5',
+            'open template 1:5-1:6',
+            'close template 1:9-1:10',
+        ]);
+        assert.strictEqual(delimiters[0].match, delimiters[3]);
+        assert.strictEqual(delimiters[3].match, delimiters[0]);
+    });
+
+    it('leaves the unclosed delimiters unpaired', () => {
+        const [delimiter] = findDelimiters('a #{ b', options);
+        assert.strictEqual(delimiter.match, null);
+    });
+});
+
+describe('findDelimiterAt', () => {
+    const delimiters = findDelimiters('#{ (ab) }', options);
+
+    it('prefers the delimiter the position is outside of', () => {
+        assert.strictEqual(describeDelimiter(findDelimiterAt(delimiters, { line: 0, ch: 3 })!), 'open parenthesis 0:3-0:4');
+        assert.strictEqual(describeDelimiter(findDelimiterAt(delimiters, { line: 0, ch: 7 })!), 'close parenthesis 0:6-0:7');
+        assert.strictEqual(describeDelimiter(findDelimiterAt(delimiters, { line: 0, ch: 1 })!), 'open code 0:0-0:3');
+    });
+
+    it('finds nothing away from the delimiters', () => {
+        assert.strictEqual(findDelimiterAt(delimiters, { line: 0, ch: 5 }), null);
+    });
+});
+
+describe('findBranchAt', () => {
+    const document = parse('a #[if][#{ b }][ c ][ d ] e', options);
+
+    it('finds the branch containing the offset', () => {
+        const branch = findBranchAt(document, 17)!;
+        assert.strictEqual(branch.node.type, 'conditional');
+        assert.deepStrictEqual(branch.starts.map(start => start.offset), [7, 20]);
+        assert.strictEqual(branch.index, 0);
+        assert.strictEqual(findBranchAt(document, 22)!.index, 1);
+    });
+
+    it('tells the header apart from the branches', () => {
+        assert.strictEqual(findBranchAt(document, 4)!.index, -1);
+    });
+
+    it('finds nothing outside of the if chains', () => {
+        assert.strictEqual(findBranchAt(document, 1), null);
+        assert.strictEqual(findBranchAt(document, 26), null);
+    });
+});
+
+describe('goToMatchingTemplateDelimiter', () => {
+    it('jumps between the paired delimiters', () => {
+        const cm = createEditor('a #{ b }', options, { line: 0, ch: 2 });
+        goToMatchingTemplateDelimiter(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 8 });
+        goToMatchingTemplateDelimiter(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 2 });
+    });
+});
+
+describe('goToNextTemplateBranch', () => {
+    it('moves through the branches of the innermost if chain', () => {
+        const cm = createEditor('#[if][#{ a }][ b ][#{ c }][ d ][ e ]', options, { line: 0, ch: 2 });
+        goToNextTemplateBranch(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 5 });
+        goToNextTemplateBranch(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 18 });
+        goToNextTemplateBranch(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 31 });
+        goToNextTemplateBranch(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 31 });
+        goToPreviousTemplateBranch(cm);
+        assert.deepStrictEqual(cm.getCursor(), { line: 0, ch: 18 });
+    });
+});
@@ -0,0 +1,81 @@
+import assert from 'assert';
+import { ITemplateOptions, ITemplateState } from '../src/node';
+import CodeMirror, { Mode } from 'codemirror';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'text/x-mysql', codeMode: 'groovy' };
+
+interface IModeProperties {
+    electricInput?: RegExp;
+    closeBrackets?: string;
+}
+
+function getMode(templateOptions: ITemplateOptions = options): Mode<ITemplateState> & IModeProperties {
+    return CodeMirror.getMode<ITemplateState>({ indentUnit: 2 }, templateOptions);
+}
+
+function startAfter(mode: Mode<ITemplateState>, text: string) {
+    const state = CodeMirror.startState(mode) as ITemplateState;
+    CodeMirror.splitLines(text).forEach(line => {
+        const stream = new CodeMirror.StringStream(line, 4);
+        while (!stream.eol()) {
+            mode.token!(stream, state);
+            stream.start = stream.pos;
+        }
+    });
+    return state;
+}
+
+describe('cxj-template mode', () => {
+    it('takes the comments and the brackets to close of the inner mode', () => {
+        const mode = getMode();
+        const sql: Mode<any> & IModeProperties = CodeMirror.getMode({}, 'text/x-mysql');
+        const text: Mode<any> & IModeProperties = CodeMirror.innerMode(mode, startAfter(mode, 'a')).mode;
+        assert.strictEqual(text.lineComment, sql.lineComment);
+        assert.strictEqual(text.blockCommentStart, '/*');
+        assert.strictEqual(text.closeBrackets, sql.closeBrackets);
+        assert.ok(text.electricInput!.test('  ]'));
+        const code = CodeMirror.innerMode(mode, startAfter(mode, 'a #{ b')).mode;
+        assert.strictEqual(code.lineComment, '//');
+    });
+
+    it('takes the template comment where the inner mode has none', () => {
+        const mode = getMode({ ...options, delimiters: { commentOpen: '#--', commentClose: '--#' } });
+        const header = CodeMirror.innerMode(mode, startAfter(mode, '#[i')).mode;
+        assert.strictEqual(header.lineComment, undefined);
+        assert.strictEqual(header.blockCommentStart, '#--');
+        assert.strictEqual(header.blockCommentEnd, '--#');
+    });
+
+    it('has the electric input of the template without any base mode', () => {
+        const mode = getMode({ name: 'cxj-template', mode: null, codeMode: null });
+        assert.strictEqual(mode.lineComment, undefined);
+        assert.ok(mode.electricInput!.test('  ]'));
+        assert.ok(!mode.electricInput!.test('  a'));
+        assert.strictEqual(mode.closeBrackets, '()[]{}\'\'""');
+    });
+
+    it('styles the blank lines by the depth and keeps them in the text before', () => {
+        const mode = getMode();
+        const state = startAfter(mode, '#[if][#{ a }][');
+        assert.strictEqual(mode.blankLine!(state), 'line-background-cxj-depth-1 cxj-depth-1 cxj-pattern-template');
+        assert.ok(/\n$/.test(state.textBefore));
+        assert.strictEqual(mode.blankLine!(startAfter(mode, 'a')), null);
+    });
+
+    it('indents the lines of a template block past the line of its header', () => {
+        const mode = getMode({ name: 'cxj-template', mode: null, codeMode: null });
+        const state = startAfter(mode, '  #[if][#{ a }][');
+        assert.strictEqual(mode.indent!(state, 'b'), 4);
+        assert.strictEqual(mode.indent!(state, ']'), 2);
+        assert.strictEqual(mode.indent!(state, ']['), 2);
+    });
+
+    it('indents the custom patterns with indent', () => {
+        const mode = getMode({ name: 'cxj-template', mode: null, codeMode: null, children: [{ name: 'angle', mode: null, open: '<', close: '>', indent: true }] });
+        const state = startAfter(mode, ' a <');
+        assert.strictEqual(mode.indent!(state, 'b'), 3);
+        assert.strictEqual(mode.indent!(state, '>'), 1);
+    });
+});
@@ -0,0 +1,70 @@
+import assert from 'assert';
+import { IBindParameterNode, IExpressionNode, ITemplateOptions, ITemplateToken, parse, tokenize } from '../src/node';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/javascript/javascript';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = {
+    name: 'cxj-template',
+    mode: 'text/x-mysql',
+    codeMode: 'groovy',
+    modes: {
+        js: 'javascript',
+        pg: { name: 'text/x-pgsql' },
+        // Never loaded.
+        py: 'python',
+    },
+};
+
+function findToken(tokens: ITemplateToken[], string: string): ITemplateToken {
+    const token = tokens.filter(candidate => candidate.string === string)[0];
+    if (!token) {
+        throw new Error(`No token "${string}".`);
+    }
+    return token;
+}
+
+describe('inner modes', () => {
+    it('picks the mode of the code by the language prefix', () => {
+        const [tokens] = tokenize('select #{js: user.name }, #{: id }, #{ x }', options);
+        assert.strictEqual(findToken(tokens, 'user').mode, 'javascript');
+        assert.strictEqual(findToken(tokens, 'id').mode, 'groovy');
+        assert.strictEqual(findToken(tokens, 'x').mode, 'groovy');
+        assert.strictEqual(findToken(tokens, 'select').mode, 'sql');
+    });
+
+    it('picks the mode of the body of the lang flag', () => {
+        const [tokens] = tokenize('#[lang=pg][ returning * ] #[lang=js][ a ]', options);
+        assert.strictEqual(findToken(tokens, 'returning').mode, 'sql');
+        assert.strictEqual(findToken(tokens, 'a').mode, 'javascript');
+    });
+
+    it('falls back from the modes which are not defined', () => {
+        const [tokens] = tokenize('#[lang=nope][ a ] #[lang=py][ b ] #{py: c }', options);
+        assert.strictEqual(findToken(tokens, 'a').mode, 'sql');
+        assert.strictEqual(findToken(tokens, 'b').mode, 'sql');
+        assert.strictEqual(findToken(tokens, 'c').mode, 'groovy');
+    });
+
+    it('resolves the mode function of a pattern and the names of modes', () => {
+        const [tokens] = tokenize('a <js: b > c', {
+            ...options,
+            children: [{ name: 'angle', open: /<\w+:/, close: '>', mode: (matched: string | null) => matched!.slice(1, -1) }],
+        });
+        assert.strictEqual(findToken(tokens, 'b').mode, 'javascript');
+        assert.strictEqual(findToken(tokens, 'c').mode, 'sql');
+    });
+
+    it('leaves the whitespaces after the opener and its prefix out of the code', () => {
+        const codes = parse('#{ a } #{js: b } #{: c } #{:js: d } #{  js :  e }', options).children
+            .filter((child): child is IExpressionNode | IBindParameterNode => child.type === 'expression' || child.type === 'bind-parameter')
+            .map(({ type, code, language }) => [type, code, language]);
+        assert.deepStrictEqual(codes, [
+            ['expression', 'a ', undefined],
+            ['expression', 'b ', 'js'],
+            ['bind-parameter', 'c ', undefined],
+            ['bind-parameter', 'd ', 'js'],
+            ['expression', 'e ', 'js'],
+        ]);
+    });
+});
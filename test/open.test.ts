@@ -0,0 +1,55 @@
+import assert from 'assert';
+import { IPattern, isJustExitTemplate, ITemplateOptions, parse, scanTemplate, tokenize } from '../src/node';
+
+function describeLines(text: string, children: IPattern[]) {
+    const options: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null, children };
+    return tokenize(text, options).map(tokens => tokens.map(({ string, name }) => `${string}:${name}`));
+}
+
+const tag: IPattern = { name: 'tag', mode: null, open: '<', close: '>' };
+const note: IPattern = { name: 'note', mode: null, open: '/*', close: '*/', transparent: true };
+
+describe('open conditions', () => {
+    it('opens a pattern right after the sibling named', () => {
+        const body: IPattern = { name: 'body', mode: null, open: '{', close: '}', openWhen: { after: ['tag'] } };
+        assert.deepStrictEqual(describeLines('<a> {b} {c}', [tag, body])[0], ['<:tag', 'a:tag', '>:tag', ' :null', '{:body', 'b:body', '}:body', ' {c}:null']);
+        assert.deepStrictEqual(describeLines('<a>\n{b}', [tag, body])[1], ['{:body', 'b:body', '}:body']);
+        assert.deepStrictEqual(describeLines('{b}', [tag, body])[0], ['{b}:null']);
+    });
+
+    it('limits the whitespaces and the line breaks between', () => {
+        const tight: IPattern = { name: 'body', mode: null, open: '{', close: '}', openWhen: { after: ['tag'], whitespace: false } };
+        assert.deepStrictEqual(describeLines('<a> {b}', [tag, tight])[0].slice(-1), [' {b}:null']);
+        const sameLine: IPattern = { name: 'body', mode: null, open: '{', close: '}', openWhen: { after: ['tag'], newline: false } };
+        assert.deepStrictEqual(describeLines('<a> {b}', [tag, sameLine])[0].slice(-3), ['{:body', 'b:body', '}:body']);
+        assert.deepStrictEqual(describeLines('<a>\n{b}', [tag, sameLine])[1], ['{b}:null']);
+    });
+
+    it('opens a pattern only under the parents named', () => {
+        const star: IPattern = { name: 'star', mode: null, open: '*', close: '*', openWhen: { parents: ['tag'] } };
+        const parent: IPattern = { ...tag, children: [star] };
+        assert.deepStrictEqual(describeLines('*a* <*b*>', [parent, star])[0], ['*a* :null', '<:tag', '*:star', 'b:star', '*:star', '>:tag']);
+    });
+
+    it('skips the transparent patterns between the siblings', () => {
+        const body: IPattern = { name: 'body', mode: null, open: '{', close: '}', openWhen: { after: ['tag'] } };
+        assert.deepStrictEqual(describeLines('<a> /* x */ {b}', [tag, note, body])[0].slice(-3), ['{:body', 'b:body', '}:body']);
+    });
+
+    it('keeps a comment between the blocks of a flag chain', () => {
+        const { children } = parse('#[if][#{ a }] #-- note --# [ b ]');
+        assert.deepStrictEqual(children.map(child => child.type), ['conditional']);
+    });
+
+    it('keeps justExitTemplate along with isJustExitTemplate', () => {
+        const stateAfter = (text: string) => scanTemplate(text, { name: 'cxj-template', mode: null, codeMode: null }).state;
+        for (const text of ['#[if][#{ a }]', '#[if][#{ a }] #-- b --# ']) {
+            const state = stateAfter(text);
+            assert.strictEqual(state.customs.justExitTemplate, true);
+            assert.strictEqual(isJustExitTemplate(state), true);
+        }
+        const entered = stateAfter('#[if][#{ a }] #{ b }');
+        assert.strictEqual(entered.customs.justExitTemplate, false);
+        assert.strictEqual(isJustExitTemplate(entered), false);
+    });
+});
@@ -0,0 +1,116 @@
+import assert from 'assert';
+import {
+    IBindParameterNode,
+    ICommentNode,
+    IConditionalNode,
+    IDirectiveNode,
+    IExpressionNode,
+    ITemplateOptions,
+    ITextNode,
+    MUSTACHE_DELIMITERS,
+    parse,
+} from '../src/node';
+
+describe('parse', () => {
+    it('parses the text, the expressions and the bind parameters', () => {
+        const { children } = parse('a #{ b } #{: c }');
+        assert.deepStrictEqual(children.map(child => child.type), ['text', 'expression', 'text', 'bind-parameter']);
+        assert.strictEqual((children[0] as ITextNode).text, 'a ');
+        assert.strictEqual((children[1] as IExpressionNode).code, 'b ');
+        assert.strictEqual((children[3] as IBindParameterNode).code, 'c ');
+    });
+
+    it('tells the source ranges', () => {
+        const document = parse('a\n #{ b }');
+        const expression = document.children[1] as IExpressionNode;
+        assert.deepStrictEqual(expression.range, {
+            from: { line: 1, ch: 1, offset: 3 },
+            to: { line: 1, ch: 7, offset: 9 },
+        });
+        assert.deepStrictEqual(expression.codeRange.from, { line: 1, ch: 4, offset: 6 });
+        assert.deepStrictEqual(document.range.to, { line: 1, ch: 7, offset: 9 });
+    });
+
+    it('parses the branches and the else body of an if chain', () => {
+        const conditional = parse('#[if][#{ x }][ y ][#{ z }][ w ][ v ]').children[0] as IConditionalNode;
+        assert.strictEqual(conditional.type, 'conditional');
+        assert.strictEqual(conditional.header.keyword, 'if');
+        assert.strictEqual(conditional.header.argument, null);
+        assert.strictEqual(conditional.branches.length, 2);
+        assert.strictEqual((conditional.branches[1].condition.children[0] as IExpressionNode).code, 'z ');
+        assert.strictEqual(conditional.branches[0].condition.kind, 'code');
+        assert.strictEqual(conditional.branches[0].body.kind, 'template');
+        assert.strictEqual((conditional.elseBody!.children[0] as ITextNode).text, ' v ');
+    });
+
+    it('parses the other flags as directives', () => {
+        const directive = parse('#[lang=pg][ returning * ]').children[0] as IDirectiveNode;
+        assert.strictEqual(directive.type, 'directive');
+        assert.strictEqual(directive.header.keyword, 'lang');
+        assert.strictEqual(directive.header.argument, 'pg');
+        assert.strictEqual(directive.flag!.keyword, 'lang');
+        assert.strictEqual(directive.blocks.length, 1);
+        const unknown = parse('#[each][#{ xs }][ i ]').children[0] as IDirectiveNode;
+        assert.strictEqual(unknown.flag, null);
+        assert.strictEqual(unknown.blocks.length, 2);
+        assert.strictEqual(unknown.blocks[0].kind, undefined);
+    });
+
+    it('tells the kinds of the blocks by the flags of the options', () => {
+        const options: ITemplateOptions = {
+            name: 'cxj-template',
+            mode: null,
+            codeMode: null,
+            flags: [{ keyword: 'each', blocks: ['code'], repeat: ['template'] }],
+        };
+        const directive = parse('#[each][#{ xs }][ a ][ b ]', options).children[0] as IDirectiveNode;
+        assert.strictEqual(directive.flag!.keyword, 'each');
+        assert.deepStrictEqual(directive.blocks.map(block => block.kind), ['code', 'template', 'template']);
+        const mismatched = parse('#[each]', options).children[0] as IDirectiveNode;
+        assert.strictEqual(mismatched.flag!.keyword, 'each');
+        assert.strictEqual(mismatched.blocks.length, 0);
+    });
+
+    it('reads the flags declared conditional as conditional chains', () => {
+        const options: ITemplateOptions = {
+            name: 'cxj-template',
+            mode: null,
+            codeMode: null,
+            flags: [
+                { keyword: 'unless', blocks: ['code', 'template'], optional: 'template', conditional: true },
+                { keyword: 'if', blocks: ['code', 'template'] },
+            ],
+        };
+        const unless = parse('#[unless][#{ a }][ b ][ c ]', options).children[0] as IConditionalNode;
+        assert.strictEqual(unless.type, 'conditional');
+        assert.strictEqual(unless.header.keyword, 'unless');
+        assert.strictEqual(unless.branches.length, 1);
+        assert.strictEqual((unless.elseBody!.children[0] as ITextNode).text, ' c ');
+        assert.strictEqual(parse('#[if][#{ a }][ b ]', options).children[0].type, 'directive');
+    });
+
+    it('keeps the comments unparsed', () => {
+        const comment = parse('#-- #{ a } --#').children[0] as ICommentNode;
+        assert.strictEqual(comment.type, 'comment');
+        assert.strictEqual(comment.text, ' #{ a } ');
+    });
+
+    it('keeps a bracket the header does not precede in the text', () => {
+        const { children } = parse('a [1] #{ b }');
+        assert.strictEqual((children[0] as ITextNode).text, 'a [1] ');
+    });
+
+    it('ends an unclosed region at the end of the document', () => {
+        const expression = parse('a #{ b').children[1] as IExpressionNode;
+        assert.strictEqual(expression.code, 'b');
+        assert.strictEqual(expression.range.to.offset, 6);
+        assert.strictEqual(expression.codeRange.to.offset, expression.range.to.offset);
+    });
+
+    it('follows the delimiters of the options', () => {
+        const options: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null, delimiters: MUSTACHE_DELIMITERS };
+        const { children } = parse('a {{ b }} {%if%}[{{ c }}][ d ]', options);
+        assert.deepStrictEqual(children.map(child => child.type), ['text', 'expression', 'text', 'conditional']);
+        assert.strictEqual((children[1] as IExpressionNode).code, 'b ');
+    });
+});
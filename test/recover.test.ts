@@ -0,0 +1,64 @@
+import assert from 'assert';
+import { IExpressionNode, IRecoverPolicy, ITemplateOptions, ITemplateToken, lintTemplate, parse, tokenize } from '../src/node';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'sql', codeMode: 'groovy' };
+
+function isError({ style }: ITemplateToken) {
+    return !!style && style.split(' ').indexOf('cxj-error') !== -1;
+}
+
+/**
+ * The string and the pattern name of every token, the error tokens marked with `!`.
+ */
+function describeLines(text: string, templateOptions: ITemplateOptions) {
+    return tokenize(text, templateOptions).map(tokens => tokens.map(token => `${token.string}${isError(token) ? '!' : ''}:${token.name}`));
+}
+
+function createOptions(recover: IRecoverPolicy): ITemplateOptions {
+    return {
+        name: 'cxj-template',
+        mode: null,
+        codeMode: null,
+        children: [{ name: 'angle', mode: null, open: '<', close: '>', recover }],
+    };
+}
+
+describe('error recovery', () => {
+    it('closes the unclosed brackets of the code with the close delimiter of the code', () => {
+        assert.deepStrictEqual(describeLines('a #{ f(a } b', options)[0].slice(-5), ['a:parenthesis', ' :parenthesis', '}!:code', ' :null', 'b:null']);
+    });
+
+    it('closes an unclosed code region at a flag header', () => {
+        const [tokens] = describeLines('#{ x #[if][#{ y }][ z ]', options);
+        assert.deepStrictEqual(tokens.slice(0, 4), ['#{ :code', 'x:code', ' :code', '#[!:template-header']);
+        const { children } = parse('#{ x #[if][#{ y }][ z ]');
+        assert.deepStrictEqual(children.map(child => child.type), ['expression', 'conditional']);
+        assert.strictEqual((children[0] as IExpressionNode).code, 'x ');
+    });
+
+    it('closes the unclosed brackets of a block with the close delimiter of the block', () => {
+        const [tokens] = describeLines('#[if][ (a ][ b ]', options);
+        assert.deepStrictEqual(tokens.slice(5, 10), ['(:parenthesis', 'a:parenthesis', ' :parenthesis', ']!:template', '[:template']);
+    });
+
+    it('closes the pattern after maxLines', () => {
+        assert.deepStrictEqual(describeLines('<a\nb\nc\nd', createOptions({ maxLines: 2 })), [['<:angle', 'a:angle'], ['b:angle'], ['c!:null'], ['d:null']]);
+    });
+
+    it('closes the pattern at a blank line', () => {
+        assert.deepStrictEqual(describeLines('<a\n\nc', createOptions({ blankLine: true })), [['<:angle', 'a:angle'], [], ['c:null']]);
+        assert.deepStrictEqual(describeLines('<a\n\nc', createOptions({})), [['<:angle', 'a:angle'], [], ['c:angle']]);
+    });
+
+    it('closes the pattern where a resync pattern matches', () => {
+        assert.deepStrictEqual(describeLines('<a ; b', createOptions({ resync: [/;/] }))[0], ['<:angle', 'a :angle', '; b!:null']);
+    });
+
+    it('lints the brackets the recovery closes', () => {
+        const [annotation] = lintTemplate('a #{ f(a } b', options);
+        assert.strictEqual(annotation.message, 'Unclosed "(".');
+        assert.deepStrictEqual([annotation.from, annotation.to], [{ line: 0, ch: 6 }, { line: 0, ch: 7 }]);
+    });
+});
@@ -0,0 +1,84 @@
+import assert from 'assert';
+import { findReferenceAt, findReferences, indexReferences, ITemplateOptions, renameReferences, renameTemplateReference } from '../src/node';
+import { createEditor } from './editor';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: null, codeMode: null };
+
+function describeReferences(text: string) {
+    return indexReferences(text, options).map(({ path, range: { from, to } }) => `${path} ${from.offset}-${to.offset}`);
+}
+
+describe('indexReferences', () => {
+    it('indexes the property paths of the code', () => {
+        assert.deepStrictEqual(describeReferences('a #{ info.type } #{: info?.id }'), [
+            'info 5-9',
+            'info.type 10-14',
+            'info 21-25',
+            'info.id 27-29',
+        ]);
+    });
+
+    it('skips the keywords, the strings, the comments and the text', () => {
+        assert.deepStrictEqual(describeReferences('x #{ a ? "b" : null /* c */ } d'), ['a 5-6']);
+    });
+
+    it('skips the properties of the calls and the indexes', () => {
+        assert.deepStrictEqual(describeReferences('#{ f(a).b + c[0].d }'), ['f 3-4', 'a 5-6', 'c 12-13']);
+    });
+
+    it('indexes the code of the blocks and the multi-line code', () => {
+        const references = indexReferences('#[if][#{ a }][\n#{ b\n.c }\n]', options);
+        assert.deepStrictEqual(references.map(({ path }) => path), ['a', 'b', 'b.c']);
+        assert.deepStrictEqual(references[2].range.from, { line: 2, ch: 1, offset: 21 });
+    });
+
+    it('skips the names the code binds itself', () => {
+        assert.deepStrictEqual(describeReferences('#{ items.collect { x -> x.a + it.b + y } }'), ['items 3-8', 'y 37-38']);
+        assert.deepStrictEqual(describeReferences('#{ items.each { it.a } } #{ it }'), ['items 3-8', 'it 28-30']);
+        assert.deepStrictEqual(describeReferences('#{ xs.map((x, i) => x + i + n) + ys.map(y => y) }'), ['xs 3-5', 'n 28-29', 'ys 33-35']);
+        assert.deepStrictEqual(describeReferences('#{ def a = b; a.c }'), ['b 11-12']);
+    });
+
+    it('skips the keys of the literals and the methods', () => {
+        assert.deepStrictEqual(describeReferences('#{ [a: b, (c): d] + { e: f } + g ? h : i }'), ['b 7-8', 'c 11-12', 'd 15-16', 'f 25-26', 'g 31-32', 'h 35-36', 'i 39-40']);
+        assert.deepStrictEqual(describeReferences('#{ a.b.trim().c + f(d) }'), ['a 3-4', 'a.b 5-6', 'f 18-19', 'd 20-21']);
+    });
+});
+
+describe('findReferences', () => {
+    it('finds the references of the same path', () => {
+        const references = indexReferences('#{ a.b } #{ a.bc } #{ a.b }', options);
+        assert.deepStrictEqual(findReferences(references, 'a.b').map(({ range }) => range.from.offset), [5, 24]);
+        assert.strictEqual(findReferenceAt(references, 6)!.path, 'a.b');
+        assert.strictEqual(findReferenceAt(references, 8), null);
+    });
+});
+
+describe('renameReferences', () => {
+    it('renames the last identifier of the path in the code only', () => {
+        const text = 'a.b #{ a.b } #{ a.bc + "a.b" } #{ x.b }';
+        assert.strictEqual(renameReferences(text, 'a.b', 'd', options), 'a.b #{ a.d } #{ a.bc + "a.b" } #{ x.b }');
+    });
+
+    it('refuses an invalid identifier', () => {
+        assert.throws(() => renameReferences('#{ a }', 'a', '1a', options), /Invalid identifier "1a"\./);
+    });
+});
+
+describe('renameTemplateReference', () => {
+    it('does nothing without the dialog addon', () => {
+        const cm = createEditor('#{ a }', options, { line: 0, ch: 4 });
+        renameTemplateReference(cm);
+        assert.strictEqual(cm.getValue(), '#{ a }');
+    });
+
+    it('renames the path at the cursor with the value of the dialog', () => {
+        const cm = createEditor('#{ a.b } #{ a.b + c }', options, { line: 0, ch: 5 });
+        (cm as any).openDialog = (_: string, callback: (value: string) => void, { value }: { value: string }) => {
+            assert.strictEqual(value, 'b');
+            callback('d');
+        };
+        renameTemplateReference(cm);
+        assert.strictEqual(cm.getValue(), '#{ a.d } #{ a.d + c }');
+    });
+});
@@ -0,0 +1,59 @@
+import assert from 'assert';
+import { evaluateExpression, getConditionCode, render } from '../src/node';
+
+const template = "select * from t #[if][#{ a.type == 'x' }][ where x = #{ a.id } ][#{ b }][ where b ][ else ]";
+
+describe('render', () => {
+    it('keeps the body of the first passed branch', () => {
+        assert.strictEqual(render(template, { a: { type: 'x', id: 3 } }), 'select * from t  where x = 3 ');
+        assert.strictEqual(render(template, { a: { type: 'y' }, b: true }), 'select * from t  where b ');
+    });
+
+    it('falls back to the else body', () => {
+        assert.strictEqual(render(template, { a: { type: 'y' }, b: false }), 'select * from t  else ');
+        assert.strictEqual(render('a #[if][#{ b }][ c ] d', { b: false }), 'a  d');
+    });
+
+    it('substitutes the expressions and the bind parameters, and drops the comments', () => {
+        assert.strictEqual(render("#{ a } #{: b } #-- c --#", { a: 'A', b: 'B' }), 'A B ');
+    });
+
+    it('renders null and undefined as empty text', () => {
+        assert.strictEqual(render('[#{ a }][#{ b }]', { a: null }), '[][]');
+    });
+
+    it('evaluates with the evaluator and converts with the stringify of the options', () => {
+        const evaluator = (code: string) => code.trim().toUpperCase();
+        assert.strictEqual(render('#{ f() }', {}, { evaluator }), 'F()');
+        assert.strictEqual(render('#{ a }', { a: [1, 2] }, { stringify: value => JSON.stringify(value) }), '[1,2]');
+    });
+
+    it('renders the other flags with the directives of the options', () => {
+        const text = '#[each][#{ items }][ #{ item } ]';
+        const output = render(text, { items: [1, 2] }, {
+            directives: {
+                each: ({ blocks: [source, body] }, { context, evaluator, renderBlock }) => {
+                    const items: any[] = evaluator(getConditionCode(source), context);
+                    return items.map(item => renderBlock(body, { ...context, item })).join(',');
+                },
+            },
+        });
+        assert.strictEqual(output, ' 1 , 2 ');
+    });
+
+    it('throws on a flag without renderer', () => {
+        assert.throws(() => render('a\n #[each][#{ b }][ c ]', {}), /No renderer for the flag "each" at 2:2\./);
+    });
+});
+
+describe('evaluateExpression', () => {
+    it('evaluates the property paths, the literals and the operators', () => {
+        assert.strictEqual(evaluateExpression("a.b == 'c'", { a: { b: 'c' } }), true);
+        assert.strictEqual(evaluateExpression('!a && (b || c > 2)', { a: false, b: false, c: 3 }), true);
+        assert.strictEqual(evaluateExpression('a.missing', { a: {} }), undefined);
+    });
+
+    it('never runs the code', () => {
+        assert.throws(() => evaluateExpression('f()', { f: () => 1 }), /Unexpected "\("/);
+    });
+});
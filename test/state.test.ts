@@ -0,0 +1,58 @@
+import assert from 'assert';
+import { getPatternsAfterToken, ITemplateOptions, ITemplateState } from '../src/node';
+import CodeMirror, { Mode } from 'codemirror';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'sql', codeMode: 'groovy' };
+
+function readLine(mode: Mode<ITemplateState>, state: ITemplateState, line: string) {
+    const stream = new CodeMirror.StringStream(line, 4);
+    while (!stream.eol()) {
+        mode.token!(stream, state);
+        stream.start = stream.pos;
+    }
+}
+
+function getPatternNames(state: ITemplateState) {
+    return getPatternsAfterToken(state).map(pattern => pattern.name);
+}
+
+function startAfter(text: string, templateOptions: ITemplateOptions = options) {
+    const mode = CodeMirror.getMode<ITemplateState>({ indentUnit: 2 }, templateOptions);
+    const state = CodeMirror.startState(mode) as ITemplateState;
+    CodeMirror.splitLines(text).forEach(line => readLine(mode, state, line));
+    return { mode, state };
+}
+
+describe('copyState', () => {
+    it('keeps the copy and the original apart', () => {
+        const { mode, state } = startAfter('a #{ f(b');
+        const copy = mode.copyState!(state);
+        readLine(mode, copy, ') }');
+        assert.deepStrictEqual(getPatternNames(copy), ['cxj-template']);
+        assert.deepStrictEqual(getPatternNames(state), ['cxj-template', 'code', 'parenthesis']);
+        assert.notStrictEqual(copy.stateContext!.state, state.stateContext!.state);
+        readLine(mode, state, ') } c');
+        assert.deepStrictEqual(getPatternNames(state), ['cxj-template']);
+    });
+
+    it('keeps the flag chains of the original when the copy goes on', () => {
+        const { mode, state } = startAfter('#[if][#{ a }]');
+        const chains = state.customs.chains!.slice();
+        const copy = mode.copyState!(state);
+        readLine(mode, copy, '[ b ] #[if][#{ c }][ d ][#{ e }]');
+        assert.deepStrictEqual(state.customs.chains, chains);
+        readLine(mode, state, '[ f ]');
+        assert.deepStrictEqual(getPatternNames(state), ['cxj-template']);
+    });
+
+    it('copies the customs with copyCustoms', () => {
+        const { mode, state } = startAfter('a', {
+            ...options,
+            copyCustoms: customs => ({ ...customs, copies: (customs.copies || 0) + 1 }),
+        });
+        assert.strictEqual(mode.copyState!(mode.copyState!(state)).customs.copies, 2);
+        assert.strictEqual(state.customs.copies, undefined);
+    });
+});
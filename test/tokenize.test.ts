@@ -0,0 +1,98 @@
+import assert from 'assert';
+import { highlightToHtml, ITemplateOptions, ITemplateToken, tokenize } from '../src/node';
+import 'codemirror/mode/groovy/groovy';
+import 'codemirror/mode/sql/sql';
+
+const options: ITemplateOptions = { name: 'cxj-template', mode: 'sql', codeMode: 'groovy' };
+
+function findToken(lines: ITemplateToken[][], string: string): ITemplateToken {
+    for (const tokens of lines) {
+        for (const token of tokens) {
+            if (token.string === string) {
+                return token;
+            }
+        }
+    }
+    throw new Error(`No token "${string}".`);
+}
+
+describe('tokenize', () => {
+    it('splits the document into the tokens of each line', () => {
+        const lines = tokenize('select a\nfrom t', options);
+        assert.strictEqual(lines.length, 2);
+        assert.deepStrictEqual(lines[0].map(token => token.string), ['select', ' ', 'a']);
+        assert.deepStrictEqual(lines[1].map(token => [token.start, token.end]), [[0, 4], [4, 5], [5, 6]]);
+    });
+
+    it('styles the text with the base mode', () => {
+        const token = findToken(tokenize('select a from t', options), 'select');
+        assert.strictEqual(token.style, 'keyword');
+        assert.strictEqual(token.name, null);
+        assert.strictEqual(token.mode, 'sql');
+        assert.deepStrictEqual(token.patterns.map(pattern => pattern.name), ['cxj-template']);
+    });
+
+    it('styles the code with the code mode and the delimiters with the template styles', () => {
+        const lines = tokenize('select #{ a.b } from t', options);
+        const open = findToken(lines, '#{ ');
+        assert.ok(open.style!.split(' ').indexOf('cxj-code') !== -1);
+        assert.ok(open.style!.split(' ').indexOf('cxj-depth-1') !== -1);
+        const code = findToken(lines, 'a');
+        assert.strictEqual(code.name, 'code');
+        assert.strictEqual(code.mode, 'groovy');
+        assert.deepStrictEqual(code.patterns.map(pattern => pattern.name), ['cxj-template', 'code']);
+        assert.strictEqual(findToken(lines, 'from').mode, 'sql');
+    });
+
+    it('nests the patterns of the flag chains', () => {
+        const lines = tokenize('#[if][#{ x }][ where y = 1 ]', options);
+        assert.strictEqual(findToken(lines, 'if').mode, 'cxj-template-flag');
+        assert.ok(findToken(lines, 'if').style!.split(' ').indexOf('cxj-template-flag-keyword-if') !== -1);
+        assert.deepStrictEqual(findToken(lines, 'x').patterns.map(pattern => pattern.name), ['cxj-template', 'template', 'code']);
+        const where = findToken(lines, 'where');
+        assert.strictEqual(where.name, 'template');
+        assert.strictEqual(where.mode, 'sql');
+        assert.ok(where.style!.split(' ').indexOf('keyword') !== -1);
+    });
+
+    it('styles the tokens by the depth and the name of their patterns, and the content by the content style', () => {
+        const [tokens] = tokenize('a <<b>> c', {
+            name: 'cxj-template',
+            mode: null,
+            codeMode: null,
+            children: [{ name: 'note', mode: null, open: '<<', close: '>>', contentStyle: 'comment' }],
+        });
+        assert.deepStrictEqual(tokens.map(({ string, style }) => [string, style]), [
+            ['a ', null],
+            ['<<', 'cxj-depth-1 cxj-pattern-note'],
+            ['b', 'cxj-depth-1 cxj-pattern-note comment'],
+            ['>>', 'cxj-depth-1 cxj-pattern-note'],
+            [' c', null],
+        ]);
+    });
+
+    it('keeps the text a template block does not follow', () => {
+        const token = findToken(tokenize('select a [1]', options), '[');
+        assert.strictEqual(token.name, null);
+    });
+});
+
+describe('highlightToHtml', () => {
+    it('wraps every styled token in a span with the classes of the editor', () => {
+        const html = highlightToHtml('a < #{ b }', options);
+        assert.ok(html.startsWith('<pre class="cm-s-default">'));
+        assert.ok(html.endsWith('</pre>'));
+        assert.ok(html.indexOf('<span class="cm-operator">&lt;</span>') !== -1);
+        assert.ok(html.indexOf('<span class="cm-bracket cm-cxj-code cm-open cm-cxj-depth-1 cm-cxj-pattern-code">#{ </span>') !== -1);
+    });
+
+    it('keeps the lines and the class name', () => {
+        assert.strictEqual(highlightToHtml('x\ny', options, { className: 'cm-s-x' }), '<pre class="cm-s-x">x\ny</pre>');
+    });
+
+    it('drops the line styles', () => {
+        const text = '#[if][#{ x }][\n  y\n]';
+        assert.ok(tokenize(text, options)[1][0].style!.indexOf('line-background-cxj-depth-1') !== -1);
+        assert.strictEqual(highlightToHtml(text, options).indexOf('line-'), -1);
+    });
+});